@@ -0,0 +1,219 @@
+import { CandleRow, pageBounds } from "./candles.js";
+import { pool } from "./lib/db.js";
+import { intervalCloseTime, intervalStart, nextIntervalStart, nominalIntervalMs } from "./intervals.js";
+import { Candle, CandlePage, ChartInterval, DerivedInterval, Interval, MarketType, ProviderId } from "./types.js";
+
+export const BASE_INTERVAL: Interval = "5m";
+
+const DERIVED_INTERVALS: readonly ChartInterval[] = ["2h", "3h", "12h", "3D"];
+
+// 1970-01-01 was a Thursday; weekly buckets start on Monday like Binance's.
+const WEEK_OFFSET_MS = 4 * 24 * 60 * 60 * 1000;
+
+export function isDerivedInterval(interval: ChartInterval): interval is DerivedInterval {
+  return DERIVED_INTERVALS.includes(interval);
+}
+
+type AggregatedRow = {
+  open_time: string;
+  close_time: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quote_volume: string | null;
+  trades: string | null;
+  taker_buy_base_volume: string | null;
+  taker_buy_quote_volume: string | null;
+  parts: string;
+};
+
+function completeSum(column: string): string {
+  return `CASE WHEN COUNT(${column}) = COUNT(*) THEN SUM(${column}) END`;
+}
+
+/**
+ * SQL that groups base candles of one symbol into buckets of the target interval.
+ * Parameters: $1 symbol, $2 base interval, $3 from, $4 to, $5 provider, $6 market. Monthly
+ * buckets follow UTC calendar months; everything else uses fixed-length buckets.
+ * Extra kline fields are only summed when every base candle of the bucket has them.
+ */
+function aggregateSql(target: ChartInterval): string {
+  const bucketExpr =
+    target === "1M"
+      ? `(EXTRACT(EPOCH FROM date_trunc('month', to_timestamp(open_time / 1000.0) AT TIME ZONE 'UTC')) * 1000)::bigint`
+      : `open_time - (((open_time - ${target === "1W" ? WEEK_OFFSET_MS : 0}) % ${nominalIntervalMs(target)}) + ${nominalIntervalMs(target)}) % ${nominalIntervalMs(target)}`;
+
+  const closeExpr =
+    target === "1M"
+      ? `(EXTRACT(EPOCH FROM (to_timestamp(bucket / 1000.0) AT TIME ZONE 'UTC' + INTERVAL '1 month')) * 1000)::bigint - 1`
+      : `bucket + ${nominalIntervalMs(target)} - 1`;
+
+  return `
+    SELECT
+      bucket AS open_time,
+      ${closeExpr} AS close_time,
+      (array_agg(open ORDER BY open_time ASC))[1] AS open,
+      MAX(high) AS high,
+      MIN(low) AS low,
+      (array_agg(close ORDER BY open_time DESC))[1] AS close,
+      SUM(volume) AS volume,
+      ${completeSum("quote_volume")} AS quote_volume,
+      ${completeSum("trades")} AS trades,
+      ${completeSum("taker_buy_base_volume")} AS taker_buy_base_volume,
+      ${completeSum("taker_buy_quote_volume")} AS taker_buy_quote_volume,
+      COUNT(*) AS parts
+    FROM (
+      SELECT
+        open_time, open, high, low, close, volume,
+        quote_volume, trades, taker_buy_base_volume, taker_buy_quote_volume,
+        ${bucketExpr} AS bucket
+      FROM candles
+      WHERE provider = $5
+      AND market = $6
+      AND symbol = $1
+      AND interval = $2
+      AND open_time >= $3
+      AND open_time <= $4
+    ) t
+    GROUP BY bucket
+  `;
+}
+
+/**
+ * Builds one page of target-interval candles from stored base candles on
+ * demand, oldest first. The last bucket may be partial when base data ends
+ * mid-bucket.
+ */
+export async function aggregateCandles(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  target: ChartInterval,
+  page: CandlePage
+): Promise<Candle[]> {
+  const { after } = page;
+  const forward = after !== undefined;
+  const { upper } = pageBounds(page);
+  // Cursors are bucket open times, so base candles past a cursor belong to the next buckets.
+  const baseFrom = forward ? Math.max(page.from, nextIntervalStart(after, target)) : page.from;
+
+  const rows = await pool.query<AggregatedRow>(
+    `${aggregateSql(target)} ORDER BY open_time ${forward ? "ASC" : "DESC"} LIMIT $7`,
+    [symbol, BASE_INTERVAL, baseFrom, upper - 1, provider, market, page.limit]
+  );
+  if (!forward) {
+    rows.rows.reverse();
+  }
+
+  return rows.rows.map((r) => ({
+    provider,
+    market,
+    symbol,
+    interval: target,
+    openTime: Number(r.open_time),
+    closeTime: Number(r.close_time),
+    open: Number(r.open),
+    high: Number(r.high),
+    low: Number(r.low),
+    close: Number(r.close),
+    volume: Number(r.volume),
+    quoteVolume: r.quote_volume === null ? null : Number(r.quote_volume),
+    trades: r.trades === null ? null : Number(r.trades),
+    takerBuyBaseVolume: r.taker_buy_base_volume === null ? null : Number(r.taker_buy_base_volume),
+    takerBuyQuoteVolume: r.taker_buy_quote_volume === null ? null : Number(r.taker_buy_quote_volume),
+  }));
+}
+
+/**
+ * Reads target-interval candles built from base candles opened in [from, to],
+ * page by page and oldest first, in the row shape of readCandlePages. Values
+ * stay exactly as Postgres computed them.
+ */
+export async function* readAggregatedPages(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  target: ChartInterval,
+  from: number,
+  to: number,
+  pageSize: number
+): AsyncGenerator<CandleRow[]> {
+  let baseFrom = from;
+
+  while (true) {
+    const rows = await pool.query<AggregatedRow>(`${aggregateSql(target)} ORDER BY open_time ASC LIMIT $7`, [
+      symbol,
+      BASE_INTERVAL,
+      baseFrom,
+      to,
+      provider,
+      market,
+      pageSize,
+    ]);
+
+    if (rows.rows.length === 0) {
+      return;
+    }
+
+    yield rows.rows.map(({ parts: _parts, ...r }) => ({ provider, market, symbol, interval: target, ...r }));
+
+    if (rows.rows.length < pageSize) {
+      return;
+    }
+    baseFrom = nextIntervalStart(Number(rows.rows[rows.rows.length - 1].open_time), target);
+  }
+}
+
+/**
+ * Materializes complete target-interval buckets into the candles table,
+ * overwriting exchange rows so every interval agrees with the base timeframe.
+ * The range is widened to whole buckets, and a bucket is only written when
+ * every one of its base candles is stored. Returns the number of rows written.
+ */
+export async function materializeRollup(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  target: ChartInterval,
+  from = 0,
+  to = Date.now()
+): Promise<number> {
+  if (target === BASE_INTERVAL) {
+    return 0;
+  }
+
+  const baseMs = nominalIntervalMs(BASE_INTERVAL);
+  const bucketFrom = intervalStart(from, target);
+  const bucketTo = intervalCloseTime(intervalStart(to, target), target);
+
+  // Buckets with holes in their base candles would replace a correct exchange candle with a partial one.
+  const result = await pool.query(
+    `
+      INSERT INTO candles (
+        provider, market, symbol, interval, open_time, close_time, open, high, low, close, volume,
+        quote_volume, trades, taker_buy_base_volume, taker_buy_quote_volume
+      )
+      SELECT
+        $5, $6, $1, $7, open_time, close_time, open, high, low, close, volume,
+        quote_volume, trades, taker_buy_base_volume, taker_buy_quote_volume
+      FROM (${aggregateSql(target)}) agg
+      WHERE parts = (close_time + 1 - open_time) / ${baseMs}
+      ON CONFLICT (provider, market, symbol, interval, open_time) DO UPDATE
+      SET close_time = EXCLUDED.close_time,
+          open = EXCLUDED.open,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          close = EXCLUDED.close,
+          volume = EXCLUDED.volume,
+          quote_volume = EXCLUDED.quote_volume,
+          trades = EXCLUDED.trades,
+          taker_buy_base_volume = EXCLUDED.taker_buy_base_volume,
+          taker_buy_quote_volume = EXCLUDED.taker_buy_quote_volume
+    `,
+    [symbol, BASE_INTERVAL, bucketFrom, bucketTo, provider, market, target]
+  );
+
+  return result.rowCount ?? 0;
+}
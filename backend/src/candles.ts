@@ -0,0 +1,232 @@
+import { pool } from "./lib/db.js";
+import { Candle, CandlePage, ChartInterval, MarketType, ProviderId } from "./types.js";
+
+// Rows per INSERT statement. Each row is sent as array elements, so this only
+// bounds statement size, not the number of bind parameters.
+const CHUNK_SIZE = 5000;
+
+// Rows per page when reading candles back.
+const PAGE_SIZE = 10000;
+
+const CANDLE_COLUMNS = `
+  provider, market, symbol, interval, open_time, close_time, open, high, low, close, volume,
+  quote_volume, trades, taker_buy_base_volume, taker_buy_quote_volume
+`;
+
+const OVERWRITE = `
+  DO UPDATE SET
+    close_time = EXCLUDED.close_time,
+    open = EXCLUDED.open,
+    high = EXCLUDED.high,
+    low = EXCLUDED.low,
+    close = EXCLUDED.close,
+    volume = EXCLUDED.volume,
+    quote_volume = EXCLUDED.quote_volume,
+    trades = EXCLUDED.trades,
+    taker_buy_base_volume = EXCLUDED.taker_buy_base_volume,
+    taker_buy_quote_volume = EXCLUDED.taker_buy_quote_volume
+`;
+
+// Rows stored before the extra kline fields existed pick them up from the next fetch that covers them.
+const BACKFILL_EXTRAS = `
+  DO UPDATE SET
+    quote_volume = COALESCE(candles.quote_volume, EXCLUDED.quote_volume),
+    trades = COALESCE(candles.trades, EXCLUDED.trades),
+    taker_buy_base_volume = COALESCE(candles.taker_buy_base_volume, EXCLUDED.taker_buy_base_volume),
+    taker_buy_quote_volume = COALESCE(candles.taker_buy_quote_volume, EXCLUDED.taker_buy_quote_volume)
+  WHERE (candles.quote_volume IS NULL AND EXCLUDED.quote_volume IS NOT NULL)
+  OR (candles.trades IS NULL AND EXCLUDED.trades IS NOT NULL)
+  OR (candles.taker_buy_base_volume IS NULL AND EXCLUDED.taker_buy_base_volume IS NOT NULL)
+`;
+
+/**
+ * Bulk-inserts candles with one multi-row INSERT per chunk. Existing rows keep
+ * their prices and only gain extra kline fields they were missing. Returns the
+ * number of rows that were actually new.
+ *
+ * With `overwrite`, existing rows are replaced instead, e.g. a candle that was
+ * stored while still forming; the result then counts replaced rows too.
+ */
+export async function insertCandles(candles: Candle[], options: { overwrite?: boolean } = {}): Promise<number> {
+  if (candles.length === 0) {
+    return 0;
+  }
+
+  const client = await pool.connect();
+  let inserted = 0;
+
+  try {
+    await client.query("BEGIN");
+
+    for (let start = 0; start < candles.length; start += CHUNK_SIZE) {
+      const chunk = candles.slice(start, start + CHUNK_SIZE);
+      const result = await client.query<{ inserted: boolean }>(
+        `
+          INSERT INTO candles (${CANDLE_COLUMNS})
+          SELECT *
+          FROM unnest(
+            $1::text[], $2::text[], $3::text[], $4::text[], $5::bigint[], $6::bigint[],
+            $7::numeric[], $8::numeric[], $9::numeric[], $10::numeric[], $11::numeric[],
+            $12::numeric[], $13::bigint[], $14::numeric[], $15::numeric[]
+          )
+          ON CONFLICT (provider, market, symbol, interval, open_time) ${options.overwrite ? OVERWRITE : BACKFILL_EXTRAS}
+          RETURNING (xmax = 0) AS inserted
+        `,
+        [
+          chunk.map((c) => c.provider),
+          chunk.map((c) => c.market),
+          chunk.map((c) => c.symbol),
+          chunk.map((c) => c.interval),
+          chunk.map((c) => c.openTime),
+          chunk.map((c) => c.closeTime),
+          chunk.map((c) => c.open),
+          chunk.map((c) => c.high),
+          chunk.map((c) => c.low),
+          chunk.map((c) => c.close),
+          chunk.map((c) => c.volume),
+          chunk.map((c) => c.quoteVolume),
+          chunk.map((c) => c.trades),
+          chunk.map((c) => c.takerBuyBaseVolume),
+          chunk.map((c) => c.takerBuyQuoteVolume),
+        ]
+      );
+      // xmax is 0 only for freshly inserted rows; backfilled ones are not new.
+      inserted += options.overwrite ? result.rows.length : result.rows.filter((r) => r.inserted).length;
+    }
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return inserted;
+}
+
+export type CandleRow = {
+  provider: string;
+  market: string;
+  symbol: string;
+  interval: string;
+  open_time: string;
+  close_time: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quote_volume: string | null;
+  trades: string | null;
+  taker_buy_base_volume: string | null;
+  taker_buy_quote_volume: string | null;
+};
+
+/**
+ * Reads candles page by page with a keyset cursor on open_time, so only one page
+ * is held in memory at a time regardless of the requested range.
+ */
+export async function* readCandlePages(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: ChartInterval,
+  from: number,
+  to: number,
+  pageSize = PAGE_SIZE
+): AsyncGenerator<CandleRow[]> {
+  let cursor = from - 1;
+
+  while (true) {
+    const rows = await pool.query<CandleRow>(
+      `
+        SELECT ${CANDLE_COLUMNS}
+        FROM candles
+        WHERE provider = $1
+        AND market = $2
+        AND symbol = $3
+        AND interval = $4
+        AND open_time > $5
+        AND open_time <= $6
+        ORDER BY open_time ASC
+        LIMIT $7
+      `,
+      [provider, market, symbol, interval, cursor, to, pageSize]
+    );
+
+    if (rows.rows.length === 0) {
+      return;
+    }
+
+    yield rows.rows;
+
+    if (rows.rows.length < pageSize) {
+      return;
+    }
+    cursor = Number(rows.rows[rows.rows.length - 1].open_time);
+  }
+}
+
+// Exclusive open-time bounds of a page, combining the window with the cursor.
+export function pageBounds(page: CandlePage): { lower: number; upper: number } {
+  return {
+    lower: Math.max(page.from - 1, page.after ?? -Infinity),
+    upper: Math.min(page.to + 1, page.before ?? Infinity),
+  };
+}
+
+/**
+ * Reads one page of stored candles, oldest first, with a keyset cursor on
+ * open_time (see CandlePage).
+ */
+export async function listCandles(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: ChartInterval,
+  page: CandlePage
+): Promise<Candle[]> {
+  const { limit, after } = page;
+  const forward = after !== undefined;
+  const { lower, upper } = pageBounds(page);
+
+  const rows = await pool.query<CandleRow>(
+    `
+      SELECT ${CANDLE_COLUMNS}
+      FROM candles
+      WHERE provider = $1
+      AND market = $2
+      AND symbol = $3
+      AND interval = $4
+      AND open_time > $5
+      AND open_time < $6
+      ORDER BY open_time ${forward ? "ASC" : "DESC"}
+      LIMIT $7
+    `,
+    [provider, market, symbol, interval, lower, upper, limit]
+  );
+
+  const candles = rows.rows.map(toCandle);
+  return forward ? candles : candles.reverse();
+}
+
+export function toCandle(r: CandleRow): Candle {
+  return {
+    provider: r.provider as ProviderId,
+    market: r.market as MarketType,
+    symbol: r.symbol,
+    interval: r.interval as ChartInterval,
+    openTime: Number(r.open_time),
+    closeTime: Number(r.close_time),
+    open: Number(r.open),
+    high: Number(r.high),
+    low: Number(r.low),
+    close: Number(r.close),
+    volume: Number(r.volume),
+    quoteVolume: r.quote_volume === null ? null : Number(r.quote_volume),
+    trades: r.trades === null ? null : Number(r.trades),
+    takerBuyBaseVolume: r.taker_buy_base_volume === null ? null : Number(r.taker_buy_base_volume),
+    takerBuyQuoteVolume: r.taker_buy_quote_volume === null ? null : Number(r.taker_buy_quote_volume),
+  };
+}
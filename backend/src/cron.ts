@@ -0,0 +1,4 @@
+// Cron parsing lives in the module shared with the frontend, which validates
+// schedule expressions with the same rules.
+export { nextCronTime, parseCron } from "../../shared/cron.js";
+export type { CronSchedule } from "../../shared/cron.js";
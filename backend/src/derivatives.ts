@@ -0,0 +1,200 @@
+import { pool } from "./lib/db.js";
+import {
+  fetchFundingRates,
+  fetchOpenInterest,
+  FUNDING_PAGE_LIMIT,
+  OPEN_INTEREST_PAGE_LIMIT,
+  OPEN_INTEREST_RETENTION_MS,
+} from "./providers/binance.js";
+import { windowEnd } from "./providers/util.js";
+import { FundingRate, Interval, MarketType, OpenInterest, ProviderId, TimeRange } from "./types.js";
+
+// Ranges of funding and open interest history a sync still has to fetch.
+export type DerivativesPlan = {
+  funding: TimeRange[];
+  openInterest: TimeRange[];
+};
+
+// Only Binance USDⓈ-M perpetuals have funding and open interest history.
+export function hasDerivatives(provider: ProviderId, market: MarketType): boolean {
+  return provider === "binance" && market === "perp";
+}
+
+// Open interest statistics have no weekly or monthly period; those charts use daily points.
+export function openInterestPeriod(interval: Interval): Interval {
+  return interval === "1W" || interval === "1M" ? "1D" : interval;
+}
+
+async function insertFundingRates(provider: ProviderId, symbol: string, rows: FundingRate[]): Promise<number> {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const result = await pool.query(
+    `
+      INSERT INTO funding_rates (provider, symbol, funding_time, funding_rate, mark_price)
+      SELECT $1, $2, *
+      FROM unnest($3::bigint[], $4::numeric[], $5::numeric[])
+      ON CONFLICT (provider, symbol, funding_time) DO NOTHING
+    `,
+    [provider, symbol, rows.map((r) => r.fundingTime), rows.map((r) => r.fundingRate), rows.map((r) => r.markPrice)]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+async function insertOpenInterest(provider: ProviderId, symbol: string, period: Interval, rows: OpenInterest[]): Promise<number> {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const result = await pool.query(
+    `
+      INSERT INTO open_interest (provider, symbol, period, time, open_interest, open_interest_value)
+      SELECT $1, $2, $3, *
+      FROM unnest($4::bigint[], $5::numeric[], $6::numeric[])
+      ON CONFLICT (provider, symbol, period, time) DO NOTHING
+    `,
+    [
+      provider,
+      symbol,
+      period,
+      rows.map((r) => r.time),
+      rows.map((r) => r.openInterest),
+      rows.map((r) => r.openInterestValue),
+    ]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+export async function listFundingRates(provider: ProviderId, symbol: string, from: number, to: number): Promise<FundingRate[]> {
+  const rows = await pool.query<{ funding_time: string; funding_rate: string; mark_price: string | null }>(
+    `
+      SELECT funding_time, funding_rate, mark_price
+      FROM funding_rates
+      WHERE provider = $1
+      AND symbol = $2
+      AND funding_time >= $3
+      AND funding_time <= $4
+      ORDER BY funding_time ASC
+    `,
+    [provider, symbol, from, to]
+  );
+
+  return rows.rows.map((r) => ({
+    fundingTime: Number(r.funding_time),
+    fundingRate: Number(r.funding_rate),
+    markPrice: r.mark_price === null ? null : Number(r.mark_price),
+  }));
+}
+
+export async function listOpenInterest(
+  provider: ProviderId,
+  symbol: string,
+  interval: Interval,
+  from: number,
+  to: number
+): Promise<OpenInterest[]> {
+  const rows = await pool.query<{ time: string; open_interest: string; open_interest_value: string }>(
+    `
+      SELECT time, open_interest, open_interest_value
+      FROM open_interest
+      WHERE provider = $1
+      AND symbol = $2
+      AND period = $3
+      AND time >= $4
+      AND time <= $5
+      ORDER BY time ASC
+    `,
+    [provider, symbol, openInterestPeriod(interval), from, to]
+  );
+
+  return rows.rows.map((r) => ({
+    time: Number(r.time),
+    openInterest: Number(r.open_interest),
+    openInterestValue: Number(r.open_interest_value),
+  }));
+}
+
+// Parts of [from, to] before the first and after the last stored point.
+function missingEdges(from: number, to: number, stored: { min_time: string | null; max_time: string | null }): TimeRange[] {
+  if (from > to) {
+    return [];
+  }
+  if (stored.min_time === null || stored.max_time === null) {
+    return [{ fromTime: from, toTime: to }];
+  }
+
+  const ranges: TimeRange[] = [];
+  const minTime = Number(stored.min_time);
+  const maxTime = Number(stored.max_time);
+  if (from < minTime) {
+    ranges.push({ fromTime: from, toTime: Math.min(to, minTime - 1) });
+  }
+  if (to > maxTime) {
+    ranges.push({ fromTime: Math.max(from, maxTime + 1), toTime: to });
+  }
+  return ranges;
+}
+
+/**
+ * Plans the funding rate and open interest history of [from, to] that is not
+ * stored yet, independently of the pair's candles: older history before the
+ * first stored point and newer data after the last. Open interest is clipped
+ * to the window Binance still serves. Null when nothing is missing.
+ */
+export async function planDerivatives(symbol: string, interval: Interval, from: number, to: number): Promise<DerivativesPlan | null> {
+  const period = openInterestPeriod(interval);
+  const [funding, openInterest] = await Promise.all([
+    pool.query<{ min_time: string | null; max_time: string | null }>(
+      "SELECT MIN(funding_time) AS min_time, MAX(funding_time) AS max_time FROM funding_rates WHERE provider = $1 AND symbol = $2",
+      ["binance", symbol]
+    ),
+    pool.query<{ min_time: string | null; max_time: string | null }>(
+      "SELECT MIN(time) AS min_time, MAX(time) AS max_time FROM open_interest WHERE provider = $1 AND symbol = $2 AND period = $3",
+      ["binance", symbol, period]
+    ),
+  ]);
+
+  const plan: DerivativesPlan = {
+    funding: missingEdges(from, to, funding.rows[0]),
+    openInterest: missingEdges(Math.max(from, Date.now() - OPEN_INTEREST_RETENTION_MS), to, openInterest.rows[0]),
+  };
+  return plan.funding.length > 0 || plan.openInterest.length > 0 ? plan : null;
+}
+
+/**
+ * Fetches the funding rate and open interest ranges of a Binance USDⓈ-M
+ * perpetual that `plan` lists and stores whatever is new. Returns the number
+ * of new rows.
+ */
+export async function syncDerivatives(symbol: string, interval: Interval, plan: DerivativesPlan, signal: AbortSignal): Promise<number> {
+  let inserted = 0;
+
+  for (const range of plan.funding) {
+    let cursor = range.fromTime;
+    while (cursor <= range.toTime && !signal.aborted) {
+      const page = await fetchFundingRates({ symbol, startTime: cursor, endTime: range.toTime, signal });
+      inserted += await insertFundingRates("binance", symbol, page);
+      if (page.length < FUNDING_PAGE_LIMIT) {
+        break;
+      }
+      cursor = page[page.length - 1].fundingTime + 1;
+    }
+  }
+
+  const period = openInterestPeriod(interval);
+  for (const range of plan.openInterest) {
+    let cursor = range.fromTime;
+    while (cursor <= range.toTime && !signal.aborted) {
+      // Bounded windows so a page never holds more points than the endpoint returns.
+      const end = windowEnd(cursor, range.toTime, period, OPEN_INTEREST_PAGE_LIMIT);
+      const page = await fetchOpenInterest({ symbol, period, startTime: cursor, endTime: end, signal });
+      inserted += await insertOpenInterest("binance", symbol, period, page);
+      cursor = end + 1;
+    }
+  }
+
+  return inserted;
+}
@@ -0,0 +1,153 @@
+import { Writable } from "node:stream";
+import parquet from "parquetjs-lite";
+import { isDerivedInterval, readAggregatedPages } from "./aggregate.js";
+import { CandleRow, readCandlePages, toCandle } from "./candles.js";
+import { ChartInterval, MarketType, ProviderId } from "./types.js";
+
+export type ExportFormat = "csv" | "json" | "parquet";
+
+type ExportParams = { provider: ProviderId; market: MarketType; symbol: string; interval: ChartInterval; from: number; to: number };
+
+const PAGE_SIZE = 10000;
+
+const CSV_HEADER =
+  "provider,market,symbol,interval,open_time,close_time,open,high,low,close,volume," +
+  "quote_volume,trades,taker_buy_base_volume,taker_buy_quote_volume\n";
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  parquet: "application/vnd.apache.parquet",
+};
+
+// Resolves false once the client has gone away instead of waiting for a drain that never comes.
+function write(out: Writable, chunk: string): Promise<boolean> {
+  if (out.destroyed) {
+    return Promise.resolve(false);
+  }
+  if (out.write(chunk)) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const settle = (open: boolean) => {
+      out.off("drain", onDrain);
+      out.off("close", onClose);
+      out.off("error", onClose);
+      resolve(open);
+    };
+    const onDrain = () => settle(true);
+    const onClose = () => settle(false);
+    out.on("drain", onDrain);
+    out.on("close", onClose);
+    out.on("error", onClose);
+  });
+}
+
+// Derived intervals are built from base candles like GET /candles, so they export without a rollup.
+function readPages(params: ExportParams): AsyncGenerator<CandleRow[]> {
+  const { provider, market, symbol, interval, from, to } = params;
+  return isDerivedInterval(interval)
+    ? readAggregatedPages(provider, market, symbol, interval, from, to, PAGE_SIZE)
+    : readCandlePages(provider, market, symbol, interval, from, to, PAGE_SIZE);
+}
+
+/**
+ * Streams stored candles to `out` in the requested format. Numeric columns are
+ * written exactly as stored in CSV; JSON and Parquet use numbers like /api/candles.
+ * Extra kline fields a venue does not report are left empty (CSV) or null.
+ * Stops reading once the client disconnects and returns the rows written so far.
+ */
+export async function exportCandles(
+  out: Writable,
+  format: ExportFormat,
+  params: ExportParams
+): Promise<number> {
+  let count = 0;
+
+  if (format === "parquet") {
+    const schema = new parquet.ParquetSchema({
+      provider: { type: "UTF8" },
+      market: { type: "UTF8" },
+      symbol: { type: "UTF8" },
+      interval: { type: "UTF8" },
+      open_time: { type: "INT64" },
+      close_time: { type: "INT64" },
+      open: { type: "DOUBLE" },
+      high: { type: "DOUBLE" },
+      low: { type: "DOUBLE" },
+      close: { type: "DOUBLE" },
+      volume: { type: "DOUBLE" },
+      quote_volume: { type: "DOUBLE", optional: true },
+      trades: { type: "INT64", optional: true },
+      taker_buy_base_volume: { type: "DOUBLE", optional: true },
+      taker_buy_quote_volume: { type: "DOUBLE", optional: true },
+    });
+    const writer = await parquet.ParquetWriter.openStream(schema, out, { rowGroupSize: PAGE_SIZE });
+
+    for await (const page of readPages(params)) {
+      if (out.destroyed) {
+        return count;
+      }
+      for (const r of page) {
+        const c = toCandle(r);
+        await writer.appendRow({
+          provider: c.provider,
+          market: c.market,
+          symbol: c.symbol,
+          interval: c.interval,
+          open_time: c.openTime,
+          close_time: c.closeTime,
+          open: c.open,
+          high: c.high,
+          low: c.low,
+          close: c.close,
+          volume: c.volume,
+          quote_volume: c.quoteVolume,
+          trades: c.trades,
+          taker_buy_base_volume: c.takerBuyBaseVolume,
+          taker_buy_quote_volume: c.takerBuyQuoteVolume,
+        });
+      }
+      count += page.length;
+    }
+
+    // Closing the writer writes the footer and ends the output stream.
+    await writer.close();
+    return count;
+  }
+
+  if (format === "csv") {
+    if (!(await write(out, CSV_HEADER))) {
+      return count;
+    }
+    for await (const page of readPages(params)) {
+      const lines = page.map(
+        (r) =>
+          `${r.provider},${r.market},${r.symbol},${r.interval},${r.open_time},${r.close_time},${r.open},${r.high},${r.low},${r.close},${r.volume},` +
+          `${r.quote_volume ?? ""},${r.trades ?? ""},${r.taker_buy_base_volume ?? ""},${r.taker_buy_quote_volume ?? ""}\n`
+      );
+      if (!(await write(out, lines.join("")))) {
+        return count;
+      }
+      count += page.length;
+    }
+    out.end();
+    return count;
+  }
+
+  if (!(await write(out, "["))) {
+    return count;
+  }
+  for await (const page of readPages(params)) {
+    const items = page.map((r) => JSON.stringify(toCandle(r)));
+    if (!(await write(out, `${count > 0 ? "," : ""}${items.join(",")}`))) {
+      return count;
+    }
+    count += page.length;
+  }
+  if (await write(out, "]")) {
+    out.end();
+  }
+  return count;
+}
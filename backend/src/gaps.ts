@@ -0,0 +1,106 @@
+import { pool } from "./lib/db.js";
+import { intervalsBetween, maxIntervalMs, shiftInterval } from "./intervals.js";
+import { CandleGap, Interval, KnownGap, MarketType, ProviderId, TimeRange } from "./types.js";
+
+export async function listKnownGaps(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: Interval
+): Promise<KnownGap[]> {
+  const rows = await pool.query<{ from_time: string; to_time: string; reason: string }>(
+    `
+      SELECT from_time, to_time, reason
+      FROM candle_known_gaps
+      WHERE provider = $1 AND market = $2 AND symbol = $3 AND interval = $4
+      ORDER BY from_time ASC
+    `,
+    [provider, market, symbol, interval]
+  );
+
+  return rows.rows.map((r) => ({
+    fromTime: Number(r.from_time),
+    toTime: Number(r.to_time),
+    reason: r.reason,
+  }));
+}
+
+function isCovered(gap: TimeRange, known: KnownGap[]): boolean {
+  return known.some((k) => k.fromTime <= gap.fromTime && k.toTime >= gap.toTime);
+}
+
+/**
+ * Lists missing open_time ranges between stored candles of a pair. Ranges are
+ * inclusive and expressed as the open times of the first and last missing candle.
+ * Gaps already recorded in candle_known_gaps are left out unless includeKnown is set.
+ */
+export async function findCandleGaps(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: Interval,
+  options: { from?: number; to?: number; includeKnown?: boolean } = {}
+): Promise<CandleGap[]> {
+  const from = options.from ?? 0;
+  const to = options.to ?? Date.now();
+
+  const rows = await pool.query<{ prev_open_time: string; open_time: string }>(
+    `
+      SELECT prev_open_time, open_time
+      FROM (
+        SELECT open_time, LAG(open_time) OVER (ORDER BY open_time) AS prev_open_time
+        FROM candles
+        WHERE provider = $1
+        AND market = $2
+        AND symbol = $3
+        AND interval = $4
+        AND open_time >= $5
+        AND open_time <= $6
+      ) t
+      WHERE open_time - prev_open_time > $7
+      ORDER BY open_time ASC
+    `,
+    // Monthly candles are 28 to 31 days apart, so only a jump past the longest
+    // month counts as a hole.
+    [provider, market, symbol, interval, from, to, maxIntervalMs(interval)]
+  );
+
+  const gaps = rows.rows.map((r) => {
+    const prev = Number(r.prev_open_time);
+    const next = Number(r.open_time);
+    return {
+      fromTime: shiftInterval(prev, interval, 1),
+      toTime: shiftInterval(next, interval, -1),
+      missing: Math.max(1, Math.round(intervalsBetween(prev, next, interval)) - 1),
+    };
+  });
+
+  if (options.includeKnown) {
+    return gaps;
+  }
+
+  const known = await listKnownGaps(provider, market, symbol, interval);
+  return gaps.filter((gap) => !isCovered(gap, known));
+}
+
+export async function recordKnownGaps(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: Interval,
+  gaps: TimeRange[],
+  reason = "exchange"
+): Promise<void> {
+  for (const gap of gaps) {
+    await pool.query(
+      `
+        INSERT INTO candle_known_gaps (provider, market, symbol, interval, from_time, to_time, reason)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (provider, market, symbol, interval, from_time) DO UPDATE
+        SET to_time = GREATEST(candle_known_gaps.to_time, EXCLUDED.to_time),
+            reason = EXCLUDED.reason
+      `,
+      [provider, market, symbol, interval, gap.fromTime, gap.toTime, reason]
+    );
+  }
+}
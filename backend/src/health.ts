@@ -0,0 +1,84 @@
+import { pool } from "./lib/db.js";
+import { providers } from "./providers/index.js";
+import { listLatestFinishedJobs } from "./sync.js";
+import { DatabaseHealth, Health, ProviderHealth, ProviderId } from "./types.js";
+
+// Exchanges are pinged at most this often, however often /api/health is polled.
+const PROVIDER_CHECK_TTL_MS = 60 * 1000;
+const PROVIDER_TIMEOUT_MS = 5000;
+
+const providerChecks = new Map<string, { expiresAt: number; result: Promise<ProviderHealth> }>();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function checkDatabase(): Promise<DatabaseHealth> {
+  const started = performance.now();
+  try {
+    await pool.query("SELECT 1");
+    return { ok: true, latencyMs: Math.round(performance.now() - started), error: null };
+  } catch (error) {
+    return { ok: false, latencyMs: null, error: errorMessage(error) };
+  }
+}
+
+async function pingProvider(id: ProviderId): Promise<ProviderHealth> {
+  const provider = providers[id];
+  const started = performance.now();
+  try {
+    await withTimeout(provider.ping(), PROVIDER_TIMEOUT_MS);
+    return {
+      id,
+      name: provider.name,
+      reachable: true,
+      latencyMs: Math.round(performance.now() - started),
+      error: null,
+      checkedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      id,
+      name: provider.name,
+      reachable: false,
+      latencyMs: null,
+      error: errorMessage(error),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// Cached per provider; concurrent health requests share one ping in flight.
+function checkProvider(id: ProviderId): Promise<ProviderHealth> {
+  const cached = providerChecks.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+  const result = pingProvider(id);
+  providerChecks.set(id, { expiresAt: Date.now() + PROVIDER_CHECK_TTL_MS, result });
+  return result;
+}
+
+/**
+ * Database round-trip time, whether each exchange answers, and the outcome of
+ * the last sync of every pair. Never throws: a failing check is reported in
+ * its own field instead.
+ */
+export async function checkHealth(): Promise<Health> {
+  const [db, providerHealth] = await Promise.all([
+    checkDatabase(),
+    Promise.all(Object.values(providers).map((p) => checkProvider(p.id))),
+  ]);
+
+  const lastSyncs = db.ok ? await listLatestFinishedJobs().catch(() => []) : [];
+
+  return { ok: db.ok, db, providers: providerHealth, lastSyncs };
+}
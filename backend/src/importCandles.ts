@@ -0,0 +1,260 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { z } from "zod";
+import { intervalCloseTime } from "./intervals.js";
+import { Candle, CandleField, ImportError, Interval, MarketType, ProviderId } from "./types.js";
+
+// Maps candle fields to header names of a generic CSV.
+export type ColumnMapping = Partial<Record<CandleField, string>>;
+
+export type ParsedImport = {
+  provider: ProviderId;
+  market: MarketType;
+  candles: Candle[];
+  rows: number;
+  errors: ImportError[];
+};
+
+const MAX_REPORTED_ERRORS = 50;
+
+const DEFAULT_HEADER_ALIASES: Record<CandleField, string[]> = {
+  openTime: ["opentime", "open_time", "timestamp", "time", "date", "datetime"],
+  closeTime: ["closetime", "close_time"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c"],
+  volume: ["volume", "vol", "v"],
+  quoteVolume: ["quotevolume", "quote_volume", "quote_asset_volume", "turnover"],
+  trades: ["trades", "count", "number_of_trades", "trade_count"],
+  takerBuyBaseVolume: ["takerbuybasevolume", "taker_buy_base_volume", "taker_buy_base_asset_volume", "taker_buy_volume"],
+  takerBuyQuoteVolume: ["takerbuyquotevolume", "taker_buy_quote_volume", "taker_buy_quote_asset_volume"],
+};
+
+// Columns a generic CSV may leave out; close time is derived, the kline statistics stay null.
+const OPTIONAL_FIELDS: CandleField[] = ["closeTime", "quoteVolume", "trades", "takerBuyBaseVolume", "takerBuyQuoteVolume"];
+
+const candleRowSchema = z
+  .object({
+    openTime: z.number().int().nonnegative(),
+    closeTime: z.number().int().nonnegative(),
+    open: z.number().positive(),
+    high: z.number().positive(),
+    low: z.number().positive(),
+    close: z.number().positive(),
+    volume: z.number().nonnegative(),
+    quoteVolume: z.number().nonnegative().nullable(),
+    trades: z.number().int().nonnegative().nullable(),
+    takerBuyBaseVolume: z.number().nonnegative().nullable(),
+    takerBuyQuoteVolume: z.number().nonnegative().nullable(),
+  })
+  .refine((c) => c.closeTime > c.openTime, "close time must be after open time")
+  .refine((c) => c.high >= c.low, "high is below low");
+
+function optionalNumber(raw: string | undefined): number | null {
+  return raw === undefined || raw === "" ? null : Number(raw);
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+// An ISO date, optionally with a time and a zone ("Z", "+01", "+0100" or "+01:00").
+const ISO_TIME = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}(?::?\d{2})?)?)?$/i;
+
+// Binance switched spot archives to microseconds in 2025; accept ms, µs and ISO dates.
+// An ISO time without a zone is UTC, so an import does not depend on the server's time zone.
+function parseTime(raw: string): number {
+  if (/^\d+$/.test(raw)) {
+    const value = Number(raw);
+    return value > 1e14 ? Math.floor(value / 1000) : value;
+  }
+
+  const match = ISO_TIME.exec(raw.trim());
+  if (!match) {
+    return Number.NaN;
+  }
+  const [, date, time = "00:00", zone = "Z"] = match;
+  const offset = zone.toUpperCase() === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.slice(3).replace(":", "") || "00"}`;
+  return Date.parse(`${date}T${time}${offset}`);
+}
+
+function collect(
+  result: ParsedImport,
+  file: string,
+  line: number,
+  raw: Record<CandleField, number | null>,
+  symbol: string,
+  interval: Interval
+): void {
+  result.rows += 1;
+  const parsed = candleRowSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    if (result.errors.length < MAX_REPORTED_ERRORS) {
+      result.errors.push({ file, line, message: parsed.error.issues.map((i) => `${i.path.join(".") || "row"}: ${i.message}`).join("; ") });
+    }
+    return;
+  }
+
+  result.candles.push({ provider: result.provider, market: result.market, symbol, interval, ...parsed.data });
+}
+
+/**
+ * Parses a kline CSV from data.binance.vision: open_time, open, high, low, close,
+ * volume, close_time, quote volume, trades, taker buy base and quote volume, with
+ * an optional header row. Spot and USDⓈ-M futures archives share this layout.
+ */
+export function parseBinanceKlineCsv(text: string, file: string, symbol: string, interval: Interval, into: ParsedImport): void {
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((line, idx) => {
+    if (line.trim() === "") {
+      return;
+    }
+
+    const cells = splitCsvLine(line);
+    if (idx === 0 && !/^\d+$/.test(cells[0])) {
+      return;
+    }
+
+    collect(
+      into,
+      file,
+      idx + 1,
+      {
+        openTime: parseTime(cells[0]),
+        open: Number(cells[1]),
+        high: Number(cells[2]),
+        low: Number(cells[3]),
+        close: Number(cells[4]),
+        volume: Number(cells[5]),
+        closeTime: parseTime(cells[6] ?? ""),
+        quoteVolume: optionalNumber(cells[7]),
+        trades: optionalNumber(cells[8]),
+        takerBuyBaseVolume: optionalNumber(cells[9]),
+        takerBuyQuoteVolume: optionalNumber(cells[10]),
+      },
+      symbol,
+      interval
+    );
+  });
+}
+
+/**
+ * Parses a generic OHLCV CSV with a header row. Columns are matched through the
+ * mapping first and common header names second; a missing close time is derived
+ * from the interval.
+ */
+export function parseGenericCsv(
+  text: string,
+  file: string,
+  symbol: string,
+  interval: Interval,
+  mapping: ColumnMapping,
+  into: ParsedImport
+): void {
+  const lines = text.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? "").map((h) => h.toLowerCase());
+
+  const columnOf = (field: CandleField): number => {
+    const mapped = mapping[field];
+    if (mapped) {
+      return header.indexOf(mapped.toLowerCase());
+    }
+    return header.findIndex((h) => DEFAULT_HEADER_ALIASES[field].includes(h));
+  };
+
+  const columns = {
+    openTime: columnOf("openTime"),
+    closeTime: columnOf("closeTime"),
+    open: columnOf("open"),
+    high: columnOf("high"),
+    low: columnOf("low"),
+    close: columnOf("close"),
+    volume: columnOf("volume"),
+    quoteVolume: columnOf("quoteVolume"),
+    trades: columnOf("trades"),
+    takerBuyBaseVolume: columnOf("takerBuyBaseVolume"),
+    takerBuyQuoteVolume: columnOf("takerBuyQuoteVolume"),
+  };
+
+  const missing = (Object.keys(columns) as CandleField[]).filter((f) => !OPTIONAL_FIELDS.includes(f) && columns[f] < 0);
+  if (missing.length > 0) {
+    into.errors.push({ file, line: 1, message: `Missing column(s): ${missing.join(", ")}` });
+    return;
+  }
+
+  lines.slice(1).forEach((line, idx) => {
+    if (line.trim() === "") {
+      return;
+    }
+
+    const cells = splitCsvLine(line);
+    const openTime = parseTime(cells[columns.openTime]);
+    const optionalCell = (column: number) => (column >= 0 ? optionalNumber(cells[column]) : null);
+
+    collect(
+      into,
+      file,
+      idx + 2,
+      {
+        openTime,
+        closeTime: columns.closeTime >= 0 ? parseTime(cells[columns.closeTime]) : intervalCloseTime(openTime, interval),
+        open: Number(cells[columns.open]),
+        high: Number(cells[columns.high]),
+        low: Number(cells[columns.low]),
+        close: Number(cells[columns.close]),
+        volume: Number(cells[columns.volume]),
+        quoteVolume: optionalCell(columns.quoteVolume),
+        trades: optionalCell(columns.trades),
+        takerBuyBaseVolume: optionalCell(columns.takerBuyBaseVolume),
+        takerBuyQuoteVolume: optionalCell(columns.takerBuyQuoteVolume),
+      },
+      symbol,
+      interval
+    );
+  });
+}
+
+/**
+ * Returns the CSV files contained in an upload. ZIP archives (as published by
+ * Binance) are unpacked; anything else is treated as a single CSV file.
+ */
+export function extractCsvFiles(body: Buffer, fileName: string): { name: string; text: string }[] {
+  const isZip = body.length > 4 && body[0] === 0x50 && body[1] === 0x4b && body[2] === 0x03 && body[3] === 0x04;
+
+  if (!isZip) {
+    return [{ name: fileName, text: body.toString("utf8") }];
+  }
+
+  const entries = unzipSync(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  return Object.entries(entries)
+    .filter(([name]) => name.toLowerCase().endsWith(".csv"))
+    .map(([name, data]) => ({ name, text: strFromU8(data) }));
+}
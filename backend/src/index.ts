@@ -1,170 +1,530 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
-import { z } from "zod";
+import { WebSocketServer } from "ws";
+import {
+  buildOpenApiDocument,
+  candleExportQuerySchema,
+  candleGapsQuerySchema,
+  candleQualityQuerySchema,
+  candlesQuerySchema,
+  Drawing,
+  drawingCreateSchema,
+  drawingsQuerySchema,
+  drawingUpdateSchema,
+  Endpoint,
+  EndpointResponse,
+  endpoints,
+  Endpoints,
+  fundingRatesQuerySchema,
+  importQuerySchema,
+  liveQuerySchema,
+  openInterestQuerySchema,
+  PositionOutcome,
+  replaySessionCreateSchema,
+  replaySessionUpdateSchema,
+  rollupRequestSchema,
+  symbolCreateSchema,
+  syncJobsQuerySchema,
+  syncRequestSchema,
+  syncScheduleCreateSchema,
+  syncScheduleUpdateSchema,
+} from "../../shared/api/index.js";
 import { pool } from "./lib/db.js";
-import { fetchKlines, intervalMsMap } from "./binance.js";
-import { Interval } from "./types.js";
+import {
+  apiNotFound,
+  asyncRoute,
+  badRequest,
+  conflict,
+  errorHandler,
+  notFound,
+  parseId,
+  parseRequest,
+  providerError,
+  requestContext,
+} from "./lib/http.js";
+import { log } from "./lib/log.js";
+import { runMigrations } from "./lib/migrate.js";
+import { aggregateCandles, BASE_INTERVAL, isDerivedInterval, materializeRollup } from "./aggregate.js";
+import { insertCandles, listCandles } from "./candles.js";
+import { listFundingRates, listOpenInterest } from "./derivatives.js";
+import { exportCandles, exportContentTypes } from "./exportCandles.js";
+import { findCandleGaps, listKnownGaps } from "./gaps.js";
+import { checkHealth } from "./health.js";
+import { extractCsvFiles, ParsedImport, parseBinanceKlineCsv, parseGenericCsv } from "./importCandles.js";
+import { subscribeLive } from "./live.js";
+import { listStoredPairs, validateCandles } from "./quality.js";
+import {
+  createReplaySession,
+  deleteReplaySession,
+  getReplaySession,
+  listReplaySessions,
+  updateReplaySession,
+} from "./replaySessions.js";
+import {
+  getProvider,
+  providers,
+  providerSupportsInterval,
+  providerSupportsLive,
+  providerSupportsMarket,
+} from "./providers/index.js";
+import {
+  createSyncSchedule,
+  deleteSyncSchedule,
+  listSyncSchedules,
+  runSyncScheduleNow,
+  startScheduler,
+  updateSyncSchedule,
+} from "./scheduler.js";
+import { cancelSyncJob, createSyncJob, getSyncJob, isTerminalStatus, listSyncJobs, resumeSyncJobs, syncEvents } from "./sync.js";
+import { LiveMessage, SymbolInfo, SyncJob } from "./types.js";
 
 const app = express();
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-Request-Id", "Retry-After"] }));
+app.use(requestContext);
 app.use(express.json());
 
 const PORT = Number(process.env.PORT ?? 3001);
 
-const intervalSchema = z.enum(["5m", "15m", "1h", "4h", "1D", "1W", "1M"]);
+// Response bodies are checked against the shared contract at compile time;
+// errors are thrown and answered by errorHandler.
+type ApiResponse<E extends Endpoint> = express.Response<EndpointResponse<E>>;
 
-const syncSchema = z.object({
-  symbol: z.string().default("BTCUSDT"),
-  interval: intervalSchema,
-});
+app.get(endpoints.health.path, asyncRoute(async (_req, res: ApiResponse<Endpoints["health"]>) => {
+  const health = await checkHealth();
+  res.status(health.ok ? 200 : 503).json(health);
+}));
 
-const drawingsSchema = z.object({
-  symbol: z.string().default("BTCUSDT"),
-  type: z.enum(["hline", "rect", "fibo", "pricerange", "longpos", "shortpos"]),
-  points: z.array(z.object({ time: z.number(), price: z.number() })).min(1),
-  style: z.record(z.unknown()).default({}),
+app.get(endpoints.openApi.path, (_req, res: ApiResponse<Endpoints["openApi"]>) => {
+  res.json(buildOpenApiDocument());
 });
 
-app.get("/api/health", async (_req, res) => {
-  const dbOk = await pool.query("SELECT 1");
-  res.json({ ok: true, db: dbOk.rowCount === 1 });
+app.get(endpoints.listProviders.path, (_req, res: ApiResponse<Endpoints["listProviders"]>) => {
+  res.json(
+    Object.values(providers).map((p) => ({
+      id: p.id,
+      name: p.name,
+      intervals: [...p.intervals],
+      markets: [...p.markets],
+      live: providerSupportsLive(p.id),
+      tradeStats: p.tradeStats,
+    }))
+  );
 });
 
-app.get("/api/candles", async (req, res) => {
-  const symbol = (req.query.symbol as string) || "BTCUSDT";
-  const intervalResult = intervalSchema.safeParse(req.query.interval);
+type SymbolRow = {
+  symbol: string;
+  base_asset: string;
+  quote_asset: string;
+  tick_size: string;
+  listed_at: string | null;
+};
+
+function toSymbolInfo(r: SymbolRow): SymbolInfo {
+  return {
+    symbol: r.symbol,
+    baseAsset: r.base_asset,
+    quoteAsset: r.quote_asset,
+    tickSize: Number(r.tick_size),
+    listedAt: r.listed_at === null ? null : Number(r.listed_at),
+  };
+}
+
+async function isKnownSymbol(symbol: string): Promise<boolean> {
+  const row = await pool.query("SELECT 1 FROM symbols WHERE symbol = $1", [symbol]);
+  return row.rowCount === 1;
+}
+
+app.get(endpoints.listSymbols.path, asyncRoute(async (_req, res: ApiResponse<Endpoints["listSymbols"]>) => {
+  const rows = await pool.query<SymbolRow>(
+    `
+      SELECT symbol, base_asset, quote_asset, tick_size, listed_at
+      FROM symbols
+      ORDER BY symbol ASC
+    `
+  );
 
-  if (!intervalResult.success) {
-    res.status(400).json({ error: "Invalid interval" });
-    return;
+  res.json(rows.rows.map(toSymbolInfo));
+}));
+
+app.post(endpoints.createSymbol.path, asyncRoute(async (req, res: ApiResponse<Endpoints["createSymbol"]>) => {
+  const input = parseRequest(symbolCreateSchema, req.body);
+  let info: SymbolInfo;
+
+  if (input.baseAsset && input.quoteAsset && input.tickSize !== undefined) {
+    info = {
+      symbol: input.symbol,
+      baseAsset: input.baseAsset,
+      quoteAsset: input.quoteAsset,
+      tickSize: input.tickSize,
+      listedAt: input.listedAt ?? null,
+    };
+  } else {
+    // Fill whatever the caller left out from the exchange metadata.
+    let remote: SymbolInfo | null;
+    try {
+      remote = await getProvider(input.provider).fetchSymbolInfo(input.symbol);
+    } catch (error) {
+      throw providerError(error);
+    }
+    if (!remote) {
+      throw notFound("Symbol not found on exchange");
+    }
+    info = {
+      symbol: remote.symbol,
+      baseAsset: input.baseAsset ?? remote.baseAsset,
+      quoteAsset: input.quoteAsset ?? remote.quoteAsset,
+      tickSize: input.tickSize ?? remote.tickSize,
+      listedAt: input.listedAt !== undefined ? input.listedAt : remote.listedAt,
+    };
   }
 
-  const interval = intervalResult.data;
-
-  const from = Number(req.query.from ?? 0);
-  const to = Number(req.query.to ?? Date.now());
-
-  const rows = await pool.query<{
-    symbol: string;
-    interval: string;
-    open_time: string;
-    close_time: string;
-    open: string;
-    high: string;
-    low: string;
-    close: string;
-    volume: string;
-  }>(
+  const row = await pool.query<SymbolRow>(
     `
-      SELECT symbol, interval, open_time, close_time, open, high, low, close, volume
-      FROM candles
-      WHERE symbol = $1
-      AND interval = $2
-      AND open_time >= $3
-      AND open_time <= $4
-      ORDER BY open_time ASC
+      INSERT INTO symbols (symbol, base_asset, quote_asset, tick_size, listed_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (symbol) DO UPDATE
+      SET base_asset = EXCLUDED.base_asset,
+          quote_asset = EXCLUDED.quote_asset,
+          tick_size = EXCLUDED.tick_size,
+          listed_at = EXCLUDED.listed_at
+      RETURNING symbol, base_asset, quote_asset, tick_size, listed_at
     `,
-    [symbol, interval, from, to]
+    [info.symbol, info.baseAsset, info.quoteAsset, info.tickSize, info.listedAt]
   );
 
-  res.json(
-    rows.rows.map((r) => ({
-      symbol: r.symbol,
-      interval: r.interval,
-      openTime: Number(r.open_time),
-      closeTime: Number(r.close_time),
-      open: Number(r.open),
-      high: Number(r.high),
-      low: Number(r.low),
-      close: Number(r.close),
-      volume: Number(r.volume),
-    }))
-  );
-});
+  res.status(201).json(toSymbolInfo(row.rows[0]));
+}));
 
-app.post("/api/sync", async (req, res) => {
-  const parsed = syncSchema.safeParse(req.body);
+app.get(endpoints.listCandles.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listCandles"]>) => {
+  const query = parseRequest(candlesQuerySchema, req.query);
 
-  if (!parsed.success) {
-    res.status(400).json({ error: parsed.error.flatten() });
+  const { provider, market, symbol, interval, from, limit, before, after } = query;
+  const source = query.source ?? (isDerivedInterval(interval) ? "derived" : "stored");
+  const page = { from, to: query.to ?? Date.now(), limit, before, after };
+
+  if (source === "derived") {
+    res.json(await aggregateCandles(provider, market, symbol, interval, page));
     return;
   }
 
-  const { symbol, interval } = parsed.data;
+  res.json(await listCandles(provider, market, symbol, interval, page));
+}));
 
-  const lastRow = await pool.query(
-    `
-      SELECT MAX(open_time) AS max_open_time
-      FROM candles
-      WHERE symbol = $1 AND interval = $2
-    `,
-    [symbol, interval]
-  );
+app.get(endpoints.exportCandles.path, asyncRoute(async (req, res) => {
+  const query = parseRequest(candleExportQuerySchema, req.query);
 
-  const maxOpenTime = Number(lastRow.rows[0]?.max_open_time ?? 0);
-  const now = Date.now();
-  const twoYearsAgo = now - 2 * 365 * 24 * 60 * 60 * 1000;
-  const stepMs = intervalMsMap[interval as Interval];
-
-  // Re-fetch one previous candle to avoid edge gaps between sync runs.
-  let cursor = maxOpenTime > 0 ? Math.max(twoYearsAgo, maxOpenTime - stepMs) : twoYearsAgo;
-  let inserted = 0;
-
-  while (cursor < now) {
-    const batch = await fetchKlines({
-      symbol,
-      interval: interval as Interval,
-      startTime: cursor,
-      endTime: now,
-      limit: 1000,
-    });
-
-    if (batch.length === 0) {
-      break;
-    }
+  const { provider, market, symbol, interval, from, format } = query;
+  const to = query.to ?? Date.now();
+  const extension = format === "parquet" ? "parquet" : format;
 
-    const client = await pool.connect();
+  res.setHeader("Content-Type", exportContentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${provider}-${market}-${symbol}-${interval}-${from}-${to}.${extension}"`);
 
-    try {
-      await client.query("BEGIN");
-      for (const c of batch) {
-        await client.query(
-          `
-            INSERT INTO candles (symbol, interval, open_time, close_time, open, high, low, close, volume)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-            ON CONFLICT (symbol, interval, open_time) DO NOTHING
-          `,
-          [c.symbol, c.interval, c.openTime, c.closeTime, c.open, c.high, c.low, c.close, c.volume]
-        );
-      }
-      await client.query("COMMIT");
-    } catch (error) {
-      await client.query("ROLLBACK");
-      throw error;
-    } finally {
-      client.release();
+  // A failure after the first rows are out ends as a truncated download (see errorHandler).
+  await exportCandles(res, format, { provider, market, symbol, interval, from, to });
+}));
+
+app.post(endpoints.materializeRollups.path, asyncRoute(async (req, res: ApiResponse<Endpoints["materializeRollups"]>) => {
+  const body = parseRequest(rollupRequestSchema, req.body);
+
+  const { provider, market, symbol, intervals, from, to } = body;
+  const results: { interval: (typeof intervals)[number]; upserted: number }[] = [];
+
+  for (const interval of intervals) {
+    results.push({ interval, upserted: await materializeRollup(provider, market, symbol, interval, from, to) });
+  }
+
+  res.json({ provider, market, symbol, baseInterval: BASE_INTERVAL, results });
+}));
+
+app.get(endpoints.listCandleGaps.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listCandleGaps"]>) => {
+  const query = parseRequest(candleGapsQuerySchema, req.query);
+
+  const { provider, market, symbol, interval, from, to } = query;
+
+  const [gaps, knownGaps] = await Promise.all([
+    findCandleGaps(provider, market, symbol, interval, { from, to }),
+    listKnownGaps(provider, market, symbol, interval),
+  ]);
+
+  res.json({ provider, market, symbol, interval, gaps, knownGaps });
+}));
+
+// Validates every stored symbol/interval pair matching the filters and reports one entry per pair.
+app.get(endpoints.checkCandleQuality.path, asyncRoute(async (req, res: ApiResponse<Endpoints["checkCandleQuality"]>) => {
+  const query = parseRequest(candleQualityQuerySchema, req.query);
+
+  const { provider, market, symbol, interval, from, to } = query;
+  const pairs = await listStoredPairs(provider, market, { symbol, interval });
+
+  const reports = [];
+  for (const pair of pairs) {
+    reports.push(await validateCandles(provider, market, pair.symbol, pair.interval, { from, to }));
+  }
+
+  res.json(reports);
+}));
+
+const rawUpload = express.raw({ type: () => true, limit: "512mb" });
+
+app.post(endpoints.importCandles.path, rawUpload, asyncRoute(async (req, res: ApiResponse<Endpoints["importCandles"]>) => {
+  const query = parseRequest(importQuerySchema, req.query);
+
+  const { provider, market, symbol, interval, format, fileName, mapping } = query;
+
+  if (!providerSupportsMarket(provider, market)) {
+    throw badRequest(`${getProvider(provider).name} has no ${market} market`);
+  }
+
+  if (!providerSupportsInterval(provider, interval)) {
+    throw badRequest(`${getProvider(provider).name} does not serve ${interval} candles`);
+  }
+
+  if (!(await isKnownSymbol(symbol))) {
+    throw notFound("Unknown symbol");
+  }
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw badRequest("Empty upload");
+  }
+
+  const files = extractCsvFiles(req.body, fileName);
+  if (files.length === 0) {
+    throw badRequest("No CSV files found in upload");
+  }
+
+  const result: ParsedImport = { provider, market, candles: [], rows: 0, errors: [] };
+  for (const file of files) {
+    if (format === "binance") {
+      parseBinanceKlineCsv(file.text, file.name, symbol, interval, result);
+    } else {
+      parseGenericCsv(file.text, file.name, symbol, interval, mapping, result);
     }
+  }
+
+  const inserted = await insertCandles(result.candles);
+
+  res.json({
+    provider,
+    market,
+    symbol,
+    interval,
+    files: files.map((f) => f.name),
+    rows: result.rows,
+    valid: result.candles.length,
+    rejected: result.rows - result.candles.length,
+    inserted,
+    errors: result.errors,
+  });
+}));
+
+app.post(endpoints.startSync.path, asyncRoute(async (req, res: ApiResponse<Endpoints["startSync"]>) => {
+  const body = parseRequest(syncRequestSchema, req.body);
+
+  const { provider, market, symbol, interval, mode, from, to, sinceListing } = body;
+
+  if (from !== undefined && to !== undefined && from >= to) {
+    throw badRequest("`from` must be before `to`");
+  }
+
+  if (!providerSupportsMarket(provider, market)) {
+    throw badRequest(`${getProvider(provider).name} has no ${market} market`);
+  }
+
+  if (!providerSupportsInterval(provider, interval)) {
+    throw badRequest(`${getProvider(provider).name} does not serve ${interval} candles`);
+  }
+
+  if (!(await isKnownSymbol(symbol))) {
+    throw notFound("Unknown symbol");
+  }
+
+  // Planning a since-listing sync asks the exchange for the listing date.
+  let result: Awaited<ReturnType<typeof createSyncJob>>;
+  try {
+    result = await createSyncJob({ provider, market, symbol, interval, mode, window: { from, to, sinceListing } });
+  } catch (error) {
+    throw providerError(error);
+  }
+  if (!result) {
+    throw conflict("Nothing to sync");
+  }
+
+  res.status(result.created ? 202 : 200).json(result.job);
+}));
+
+app.get(endpoints.listSyncJobs.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listSyncJobs"]>) => {
+  const query = parseRequest(syncJobsQuerySchema, req.query);
+
+  const jobs = await listSyncJobs(query);
+  res.json(jobs);
+}));
+
+app.get(endpoints.getSyncJob.path, asyncRoute(async (req, res: ApiResponse<Endpoints["getSyncJob"]>) => {
+  const id = parseId(req.params.id, "job");
 
-    inserted += batch.length;
+  const job = await getSyncJob(id);
+  if (!job) {
+    throw notFound("Sync job not found");
+  }
+
+  res.json(job);
+}));
+
+app.get(endpoints.syncJobEvents.path, asyncRoute(async (req, res) => {
+  const id = parseId(req.params.id, "job");
+
+  const job = await getSyncJob(id);
+  if (!job) {
+    throw notFound("Sync job not found");
+  }
 
-    const last = batch[batch.length - 1];
-    cursor = last.openTime + stepMs;
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
 
-    if (batch.length < 1000) {
-      break;
+  const send = (next: SyncJob) => {
+    res.write(`data: ${JSON.stringify(next)}\n\n`);
+    if (isTerminalStatus(next.status)) {
+      res.end();
     }
+  };
+
+  const eventName = `job:${id}`;
+  syncEvents.on(eventName, send);
+  req.on("close", () => {
+    syncEvents.off(eventName, send);
+  });
+
+  send(job);
+}));
+
+app.delete(endpoints.cancelSyncJob.path, asyncRoute(async (req, res: ApiResponse<Endpoints["cancelSyncJob"]>) => {
+  const id = parseId(req.params.id, "job");
+
+  const job = await cancelSyncJob(id);
+  if (!job) {
+    throw notFound("Sync job not found");
   }
 
-  res.json({ ok: true, inserted, symbol, interval });
-});
+  res.json(job);
+}));
+
+app.get(endpoints.listSyncSchedules.path, asyncRoute(async (_req, res: ApiResponse<Endpoints["listSyncSchedules"]>) => {
+  res.json(await listSyncSchedules());
+}));
+
+app.post(endpoints.createSyncSchedule.path, asyncRoute(async (req, res: ApiResponse<Endpoints["createSyncSchedule"]>) => {
+  const body = parseRequest(syncScheduleCreateSchema, req.body);
+
+  const { provider, market, symbol, interval } = body;
+
+  if (!providerSupportsMarket(provider, market)) {
+    throw badRequest(`${getProvider(provider).name} has no ${market} market`);
+  }
+
+  if (!providerSupportsInterval(provider, interval)) {
+    throw badRequest(`${getProvider(provider).name} does not serve ${interval} candles`);
+  }
+
+  if (!(await isKnownSymbol(symbol))) {
+    throw notFound("Unknown symbol");
+  }
+
+  const schedule = await createSyncSchedule(body);
+  if (!schedule) {
+    throw conflict("This pair is already scheduled");
+  }
+
+  res.status(201).json(schedule);
+}));
+
+app.put(endpoints.updateSyncSchedule.path, asyncRoute(async (req, res: ApiResponse<Endpoints["updateSyncSchedule"]>) => {
+  const id = parseId(req.params.id, "schedule");
+
+  const body = parseRequest(syncScheduleUpdateSchema, req.body);
+
+  const schedule = await updateSyncSchedule(id, body);
+  if (!schedule) {
+    throw notFound("Sync schedule not found");
+  }
+
+  res.json(schedule);
+}));
 
-app.get("/api/drawings", async (req, res) => {
-  const symbol = (req.query.symbol as string) || "BTCUSDT";
+app.post(endpoints.runSyncSchedule.path, asyncRoute(async (req, res: ApiResponse<Endpoints["runSyncSchedule"]>) => {
+  const id = parseId(req.params.id, "schedule");
 
-  const rows = await pool.query(
+  const schedule = await runSyncScheduleNow(id);
+  if (!schedule) {
+    throw notFound("Sync schedule not found");
+  }
+
+  res.json(schedule);
+}));
+
+app.delete(endpoints.deleteSyncSchedule.path, asyncRoute(async (req, res: ApiResponse<Endpoints["deleteSyncSchedule"]>) => {
+  const id = parseId(req.params.id, "schedule");
+
+  if (!(await deleteSyncSchedule(id))) {
+    throw notFound("Sync schedule not found");
+  }
+
+  res.status(204).send();
+}));
+
+app.get(endpoints.listFundingRates.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listFundingRates"]>) => {
+  const query = parseRequest(fundingRatesQuerySchema, req.query);
+
+  const { provider, symbol, from } = query;
+  res.json(await listFundingRates(provider, symbol, from, query.to ?? Date.now()));
+}));
+
+app.get(endpoints.listOpenInterest.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listOpenInterest"]>) => {
+  const query = parseRequest(openInterestQuerySchema, req.query);
+
+  const { provider, symbol, interval, from } = query;
+  res.json(await listOpenInterest(provider, symbol, interval, from, query.to ?? Date.now()));
+}));
+
+type DrawingRow = {
+  id: string;
+  symbol: string;
+  type: Drawing["type"];
+  points: Drawing["points"];
+  style: Drawing["style"];
+  // Outcomes saved before their interval was recorded have none.
+  outcome: (Omit<PositionOutcome, "interval"> & { interval?: PositionOutcome["interval"] }) | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+const DRAWING_COLUMNS = "id, symbol, type, points, style, outcome, created_at, updated_at";
+
+function toDrawing(r: DrawingRow): Drawing {
+  return {
+    id: Number(r.id),
+    symbol: r.symbol,
+    type: r.type,
+    points: r.points,
+    style: r.style,
+    outcome: r.outcome && { ...r.outcome, interval: r.outcome.interval ?? null },
+    createdAt: r.created_at.toISOString(),
+    updatedAt: r.updated_at.toISOString(),
+  };
+}
+
+app.get(endpoints.listDrawings.path, asyncRoute(async (req, res: ApiResponse<Endpoints["listDrawings"]>) => {
+  const query = parseRequest(drawingsQuerySchema, req.query);
+
+  const { symbol } = query;
+
+  const rows = await pool.query<DrawingRow>(
     `
-      SELECT id, symbol, type, points, style, created_at, updated_at
+      SELECT ${DRAWING_COLUMNS}
       FROM drawings
       WHERE symbol = $1
       ORDER BY created_at ASC
@@ -172,45 +532,30 @@ app.get("/api/drawings", async (req, res) => {
     [symbol]
   );
 
-  res.json(rows.rows);
-});
-
-app.post("/api/drawings", async (req, res) => {
-  const parsed = drawingsSchema.safeParse(req.body);
+  res.json(rows.rows.map(toDrawing));
+}));
 
-  if (!parsed.success) {
-    res.status(400).json({ error: parsed.error.flatten() });
-    return;
-  }
+app.post(endpoints.createDrawing.path, asyncRoute(async (req, res: ApiResponse<Endpoints["createDrawing"]>) => {
+  const body = parseRequest(drawingCreateSchema, req.body);
 
-  const { symbol, type, points, style } = parsed.data;
+  const { symbol, type, points, style } = body;
 
-  const row = await pool.query(
+  const row = await pool.query<DrawingRow>(
     `
       INSERT INTO drawings(symbol, type, points, style)
       VALUES ($1, $2, $3::jsonb, $4::jsonb)
-      RETURNING id, symbol, type, points, style, created_at, updated_at
+      RETURNING ${DRAWING_COLUMNS}
     `,
     [symbol, type, JSON.stringify(points), JSON.stringify(style)]
   );
 
-  res.status(201).json(row.rows[0]);
-});
+  res.status(201).json(toDrawing(row.rows[0]));
+}));
 
-app.put("/api/drawings/:id", async (req, res) => {
-  const id = Number(req.params.id);
-  if (!Number.isFinite(id)) {
-    res.status(400).json({ error: "Invalid drawing id" });
-    return;
-  }
+app.put(endpoints.updateDrawing.path, asyncRoute(async (req, res: ApiResponse<Endpoints["updateDrawing"]>) => {
+  const id = parseId(req.params.id, "drawing");
 
-  const parsed = drawingsSchema.partial().safeParse(req.body);
-  if (!parsed.success) {
-    res.status(400).json({ error: parsed.error.flatten() });
-    return;
-  }
-
-  const fields = parsed.data;
+  const fields = parseRequest(drawingUpdateSchema, req.body);
   const sets: string[] = [];
   const values: unknown[] = [];
 
@@ -234,47 +579,186 @@ app.put("/api/drawings/:id", async (req, res) => {
     sets.push(`symbol = $${values.length}`);
   }
 
+  if (fields.outcome !== undefined) {
+    // JSON.stringify(null) would store a JSON null rather than clear the column.
+    values.push(fields.outcome === null ? null : JSON.stringify(fields.outcome));
+    sets.push(`outcome = $${values.length}::jsonb`);
+  } else if (fields.points) {
+    // Moved levels or times invalidate the stored result; the chart resolves it again.
+    sets.push("outcome = NULL");
+  }
+
   if (sets.length === 0) {
-    res.status(400).json({ error: "Nothing to update" });
-    return;
+    throw badRequest("Nothing to update");
   }
 
   values.push(id);
 
-  const row = await pool.query(
+  const row = await pool.query<DrawingRow>(
     `
       UPDATE drawings
       SET ${sets.join(", ")}, updated_at = NOW()
       WHERE id = $${values.length}
-      RETURNING id, symbol, type, points, style, created_at, updated_at
+      RETURNING ${DRAWING_COLUMNS}
     `,
     values
   );
 
   if (row.rowCount === 0) {
-    res.status(404).json({ error: "Drawing not found" });
-    return;
+    throw notFound("Drawing not found");
   }
 
-  res.json(row.rows[0]);
-});
+  res.json(toDrawing(row.rows[0]));
+}));
 
-app.delete("/api/drawings/:id", async (req, res) => {
-  const id = Number(req.params.id);
-  if (!Number.isFinite(id)) {
-    res.status(400).json({ error: "Invalid drawing id" });
-    return;
-  }
+app.delete(endpoints.deleteDrawing.path, asyncRoute(async (req, res: ApiResponse<Endpoints["deleteDrawing"]>) => {
+  const id = parseId(req.params.id, "drawing");
 
   const deleted = await pool.query("DELETE FROM drawings WHERE id = $1", [id]);
   if (deleted.rowCount === 0) {
-    res.status(404).json({ error: "Drawing not found" });
-    return;
+    throw notFound("Drawing not found");
+  }
+
+  res.status(204).send();
+}));
+
+app.get(endpoints.listReplaySessions.path, asyncRoute(async (_req, res: ApiResponse<Endpoints["listReplaySessions"]>) => {
+  res.json(await listReplaySessions());
+}));
+
+app.post(endpoints.createReplaySession.path, asyncRoute(async (req, res: ApiResponse<Endpoints["createReplaySession"]>) => {
+  const body = parseRequest(replaySessionCreateSchema, req.body);
+
+  if (!providerSupportsMarket(body.provider, body.market)) {
+    throw badRequest(`${getProvider(body.provider).name} has no ${body.market} market`);
+  }
+
+  if (!(await isKnownSymbol(body.symbol))) {
+    throw notFound("Unknown symbol");
+  }
+
+  res.status(201).json(await createReplaySession(body));
+}));
+
+app.get(endpoints.getReplaySession.path, asyncRoute(async (req, res: ApiResponse<Endpoints["getReplaySession"]>) => {
+  const id = parseId(req.params.id, "replay session");
+
+  const session = await getReplaySession(id);
+  if (!session) {
+    throw notFound("Replay session not found");
+  }
+
+  res.json(session);
+}));
+
+app.put(endpoints.updateReplaySession.path, asyncRoute(async (req, res: ApiResponse<Endpoints["updateReplaySession"]>) => {
+  const id = parseId(req.params.id, "replay session");
+
+  const body = parseRequest(replaySessionUpdateSchema, req.body);
+
+  const current = await getReplaySession(id);
+  if (!current) {
+    throw notFound("Replay session not found");
+  }
+
+  if (body.currentTime !== undefined && body.currentTime < current.startTime) {
+    throw badRequest("currentTime cannot be before the session start");
+  }
+
+  const session = await updateReplaySession(id, body);
+  if (!session) {
+    throw notFound("Replay session not found");
+  }
+
+  res.json(session);
+}));
+
+app.delete(endpoints.deleteReplaySession.path, asyncRoute(async (req, res: ApiResponse<Endpoints["deleteReplaySession"]>) => {
+  const id = parseId(req.params.id, "replay session");
+
+  if (!(await deleteReplaySession(id))) {
+    throw notFound("Replay session not found");
   }
 
   res.status(204).send();
+}));
+
+app.use("/api", apiNotFound);
+app.use(errorHandler);
+
+// Background work (sync jobs, scheduler, live streams) reports its own failures;
+// anything that slips through is logged instead of ending the process.
+process.on("unhandledRejection", (error) => {
+  log.error("Unhandled rejection", { error });
+});
+
+// The schema must be current before any route or resumed job touches it.
+const migrated = await runMigrations();
+if (migrated.length > 0) {
+  log.info("Applied migrations", { files: migrated.map((m) => m.file) });
+}
+
+const server = app.listen(PORT, () => {
+  log.info("Backend listening", { url: `http://localhost:${PORT}` });
+  resumeSyncJobs()
+    .then((count) => {
+      if (count > 0) {
+        log.info("Resumed sync jobs", { count });
+      }
+    })
+    .catch((error) => log.error("Failed to resume sync jobs", { error }));
+  startScheduler();
 });
 
-app.listen(PORT, () => {
-  console.log(`Backend listening on http://localhost:${PORT}`);
+// Live candles: ws://host/api/live?provider&market&symbol&interval streams LiveMessage JSON frames.
+const liveServer = new WebSocketServer({ server, path: "/api/live" });
+
+liveServer.on("connection", async (socket, req) => {
+  const send = (message: LiveMessage) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+  const reject = (error: string) => {
+    send({ type: "error", error });
+    socket.close(1008, error.slice(0, 120));
+  };
+
+  const url = new URL(req.url ?? "", "http://localhost");
+  const parsed = liveQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+  if (!parsed.success) {
+    reject("Invalid live query");
+    return;
+  }
+
+  const { provider, market, symbol, interval } = parsed.data;
+
+  if (!providerSupportsLive(provider)) {
+    reject(`${getProvider(provider).name} has no live stream`);
+    return;
+  }
+
+  if (!providerSupportsMarket(provider, market) || !providerSupportsInterval(provider, interval)) {
+    reject(`${getProvider(provider).name} does not serve ${market} ${interval} candles`);
+    return;
+  }
+
+  try {
+    if (!(await isKnownSymbol(symbol))) {
+      reject("Unknown symbol");
+      return;
+    }
+  } catch (error) {
+    log.error("Live subscription failed", { symbol, error });
+    reject("Internal server error");
+    return;
+  }
+
+  // The client may have left while the symbol was looked up.
+  if (socket.readyState !== socket.OPEN) {
+    return;
+  }
+
+  const unsubscribe = subscribeLive(parsed.data, send);
+  socket.on("close", unsubscribe);
 });
@@ -0,0 +1,11 @@
+// Interval boundaries come from the module shared with the frontend so both
+// agree on where weekly and monthly candles start.
+export {
+  intervalCloseTime,
+  intervalsBetween,
+  intervalStart,
+  maxIntervalMs,
+  nextIntervalStart,
+  nominalIntervalMs,
+  shiftInterval,
+} from "../../shared/intervals.js";
@@ -1,4 +1,5 @@
 import pg from "pg";
+import { log } from "./log.js";
 
 const { Pool } = pg;
 
@@ -11,3 +12,8 @@ if (!databaseUrl) {
 export const pool = new Pool({
   connectionString: databaseUrl,
 });
+
+// An idle client losing its connection must not take the process down; the pool replaces it.
+pool.on("error", (error) => {
+  log.error("Idle database client failed", { error });
+});
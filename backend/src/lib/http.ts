@@ -0,0 +1,169 @@
+import { randomUUID } from "node:crypto";
+import axios from "axios";
+import express from "express";
+import { z } from "zod";
+import { ApiError, ApiErrorCode } from "../../../shared/api/index.js";
+import { ProviderRequestError } from "../providers/restClient.js";
+import { log } from "./log.js";
+
+/**
+ * A failure with a known HTTP answer. Route handlers throw it and the error
+ * middleware turns it into the `{ error: { code, message, details } }` body.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: unknown,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function badRequest(message: string, details?: unknown): HttpError {
+  return new HttpError(400, "invalid_request", message, details);
+}
+
+export function notFound(message: string): HttpError {
+  return new HttpError(404, "not_found", message);
+}
+
+export function conflict(message: string): HttpError {
+  return new HttpError(409, "conflict", message);
+}
+
+// Exchange failures get a 502, or a 503 with Retry-After while the exchange throttles us.
+export function providerError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  if (error instanceof ProviderRequestError && error.retryAfterMs !== null) {
+    return new HttpError(503, "provider_throttled", error.message, { kind: error.kind }, {
+      "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)),
+    });
+  }
+  const details = error instanceof ProviderRequestError ? { kind: error.kind, status: error.status } : undefined;
+  return new HttpError(502, "provider_error", error instanceof Error ? error.message : String(error), details);
+}
+
+// "interval: Invalid enum value ...; from: Expected number" from a zod error.
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((i) => (i.path.length > 0 ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+}
+
+// Parses a query or body with its contract schema, failing the request with a 400.
+export function parseRequest<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw badRequest(describeIssues(parsed.error), parsed.error.flatten());
+  }
+  return parsed.data;
+}
+
+// Numeric `:id` path parameter.
+export function parseId(value: string, what: string): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id)) {
+    throw badRequest(`Invalid ${what} id`);
+  }
+  return id;
+}
+
+/**
+ * Express 4 ignores the promise an async handler returns, so a rejection
+ * would leave the request hanging. This forwards it to the error middleware.
+ */
+export function asyncRoute<Res extends express.Response>(
+  handler: (req: express.Request, res: Res) => Promise<void>
+): express.RequestHandler {
+  return (req, res, next) => {
+    handler(req, res as Res).catch(next);
+  };
+}
+
+// req.path is relative to the router a handler is mounted on; logs want the full path.
+function requestPath(req: express.Request): string {
+  return req.originalUrl.split("?")[0];
+}
+
+// Client-supplied ids are kept so a request can be followed across services.
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+// Tags every request with an id (X-Request-Id) and logs it once the response is sent.
+export function requestContext(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const incoming = req.get("X-Request-Id");
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const started = performance.now();
+
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  res.on("finish", () => {
+    log.info("Request", {
+      requestId,
+      method: req.method,
+      path: requestPath(req),
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - started),
+    });
+  });
+  next();
+}
+
+function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  if (error instanceof ProviderRequestError || axios.isAxiosError(error)) {
+    return providerError(error);
+  }
+  // Body parser failures carry the status they should be answered with.
+  const type = (error as { type?: unknown } | null)?.type;
+  if (type === "entity.parse.failed") {
+    return badRequest("Request body is not valid JSON");
+  }
+  if (type === "entity.too.large") {
+    return new HttpError(413, "payload_too_large", "Request body is too large");
+  }
+  return new HttpError(500, "internal", "Internal server error");
+}
+
+// Routes nothing else matched, answered in the same shape as every other error.
+export function apiNotFound(req: express.Request, _res: express.Response, next: express.NextFunction): void {
+  next(notFound(`No route for ${req.method} ${requestPath(req)}`));
+}
+
+// Registered last: the single place errors become responses and error logs.
+export function errorHandler(
+  error: unknown,
+  req: express.Request,
+  res: express.Response<ApiError>,
+  _next: express.NextFunction
+): void {
+  const httpError = toHttpError(error);
+  const requestId = String(res.locals.requestId ?? "");
+
+  if (httpError.status >= 500) {
+    log.error("Request failed", { requestId, method: req.method, path: requestPath(req), status: httpError.status, error });
+  }
+
+  // A streamed response (export, SSE) has already committed its status; cutting it short is all that is left.
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  for (const [name, value] of Object.entries(httpError.headers)) {
+    res.setHeader(name, value);
+  }
+  res.status(httpError.status).json({
+    error: {
+      code: httpError.code,
+      message: httpError.message,
+      ...(httpError.details !== undefined ? { details: httpError.details } : {}),
+      requestId,
+    },
+  });
+}
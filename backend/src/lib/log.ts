@@ -0,0 +1,32 @@
+// Structured logs: one JSON object per line on stdout/stderr, so request ids
+// and job ids can be grepped or shipped to a log collector as-is.
+
+type Level = "info" | "warn" | "error";
+type Fields = Record<string, unknown>;
+
+function serializeError(error: unknown): Fields {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
+
+function write(level: Level, message: string, fields: Fields = {}): void {
+  const entry: Fields = { time: new Date().toISOString(), level, msg: message };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = key === "error" ? serializeError(value) : value;
+  }
+  const line = JSON.stringify(entry);
+  if (level === "info") {
+    console.log(line);
+  } else {
+    console.error(line);
+  }
+}
+
+export const log = {
+  info: (message: string, fields?: Fields) => write("info", message, fields),
+  warn: (message: string, fields?: Fields) => write("warn", message, fields),
+  // Pass the caught value as `error` to get its name, message and stack.
+  error: (message: string, fields?: Fields) => write("error", message, fields),
+};
@@ -0,0 +1,107 @@
+import { readdir, readFile } from "node:fs/promises";
+import { pool } from "./db.js";
+
+// Numbered SQL files, e.g. 0007_sync_schedules.sql, applied in version order.
+const MIGRATIONS_DIR = new URL("../migrations/", import.meta.url);
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+// Held while migrating so backends starting side by side do not apply the same file twice.
+const LOCK_KEY = 7_203_114;
+
+export type Migration = {
+  version: number;
+  name: string;
+  file: string;
+};
+
+export type MigrationStatus = Migration & {
+  appliedAt: string | null;
+};
+
+export async function listMigrations(): Promise<Migration[]> {
+  const migrations: Migration[] = [];
+
+  for (const file of await readdir(MIGRATIONS_DIR)) {
+    const match = FILE_PATTERN.exec(file);
+    if (match) {
+      migrations.push({ version: Number(match[1]), name: match[2], file });
+    }
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i += 1) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Migrations ${migrations[i - 1].file} and ${migrations[i].file} share version ${migrations[i].version}`);
+    }
+  }
+
+  return migrations;
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function appliedMigrations(): Promise<Map<number, Date>> {
+  const rows = await pool.query<{ version: number; applied_at: Date }>("SELECT version, applied_at FROM schema_migrations");
+  return new Map(rows.rows.map((r) => [r.version, r.applied_at]));
+}
+
+// Every migration file with the time it was applied, or null while pending.
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable();
+  const applied = await appliedMigrations();
+
+  return (await listMigrations()).map((m) => ({
+    ...m,
+    appliedAt: applied.get(m.version)?.toISOString() ?? null,
+  }));
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction
+ * together with its schema_migrations row, so a failing file leaves the
+ * database at the previous version. With `to`, stops after that version.
+ * Returns the migrations that were applied.
+ */
+export async function runMigrations(options: { to?: number } = {}): Promise<Migration[]> {
+  await ensureMigrationsTable();
+  const migrations = await listMigrations();
+  const client = await pool.connect();
+  const done: Migration[] = [];
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [LOCK_KEY]);
+    // Read after taking the lock; another backend may have just finished.
+    const applied = await appliedMigrations();
+
+    for (const migration of migrations) {
+      if (applied.has(migration.version) || (options.to !== undefined && migration.version > options.to)) {
+        continue;
+      }
+
+      const sql = await readFile(new URL(migration.file, MIGRATIONS_DIR), "utf8");
+      try {
+        await client.query("BEGIN");
+        await client.query(sql);
+        await client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [migration.version, migration.name]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(`Migration ${migration.file} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      done.push(migration);
+    }
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+
+  return done;
+}
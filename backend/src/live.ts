@@ -0,0 +1,109 @@
+import { insertCandles } from "./candles.js";
+import { log } from "./lib/log.js";
+import { getProvider, KlineStream } from "./providers/index.js";
+import { createSyncJob } from "./sync.js";
+import { Interval, LiveMessage, MarketType, ProviderId } from "./types.js";
+
+export type LiveQuery = {
+  provider: ProviderId;
+  market: MarketType;
+  symbol: string;
+  interval: Interval;
+};
+
+type LiveListener = (message: LiveMessage) => void;
+
+type LiveFeed = {
+  stream: KlineStream;
+  listeners: Set<LiveListener>;
+  // The catch-up sync started with the stream, sent again to clients that join later.
+  catchUp: LiveMessage | null;
+};
+
+// One exchange stream per pair, shared by every client watching it.
+const feeds = new Map<string, LiveFeed>();
+
+function feedKey({ provider, market, symbol, interval }: LiveQuery): string {
+  return `${provider}:${market}:${symbol}:${interval}`;
+}
+
+// Fills the stretch between the last stored candle and the stream with the regular forward sync.
+async function catchUp(query: LiveQuery): Promise<LiveMessage | null> {
+  try {
+    const result = await createSyncJob({ ...query, mode: "forward" });
+    return result ? { type: "sync", job: result.job } : null;
+  } catch (error) {
+    return { type: "error", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function openFeed(query: LiveQuery): LiveFeed {
+  const streamKlines = getProvider(query.provider).streamKlines;
+  if (!streamKlines) {
+    throw new Error(`${getProvider(query.provider).name} has no live stream`);
+  }
+
+  const listeners = new Set<LiveListener>();
+  const broadcast = (message: LiveMessage) => {
+    for (const listener of listeners) {
+      listener(message);
+    }
+  };
+
+  const stream = streamKlines(query, {
+    onCandle(candle, closed) {
+      if (closed) {
+        // A sync may have stored this candle while it was still forming.
+        insertCandles([candle], { overwrite: true }).catch((error) => {
+          log.error("Failed to store live candle", { provider: candle.provider, symbol: candle.symbol, error });
+        });
+      }
+      broadcast({ type: "candle", candle, closed });
+    },
+    onError(error) {
+      broadcast({ type: "error", error: error.message });
+    },
+  });
+
+  const feed: LiveFeed = { stream, listeners, catchUp: null };
+  // Once per stream rather than per client: every client watches the same gap being filled.
+  void catchUp(query).then((message) => {
+    if (message?.type === "sync") {
+      feed.catchUp = message;
+    }
+    if (message) {
+      broadcast(message);
+    }
+  });
+  return feed;
+}
+
+/**
+ * Relays the forming candle of the pair to `listener` and stores closed
+ * candles. Returns the unsubscribe function; the exchange stream is closed
+ * once its last listener leaves.
+ */
+export function subscribeLive(query: LiveQuery, listener: LiveListener): () => void {
+  const key = feedKey(query);
+  let feed = feeds.get(key);
+  if (!feed) {
+    feed = openFeed(query);
+    feeds.set(key, feed);
+  }
+  feed.listeners.add(listener);
+  if (feed.catchUp) {
+    listener(feed.catchUp);
+  }
+
+  return () => {
+    const current = feeds.get(key);
+    if (!current) {
+      return;
+    }
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      current.stream.close();
+      feeds.delete(key);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import "dotenv/config";
+import { pool } from "./lib/db.js";
+import { getMigrationStatus, runMigrations } from "./lib/migrate.js";
+
+// npm run migrate -- [up [--to <version>] | status]
+const USAGE = "Usage: migrate [up [--to <version>] | status]";
+
+async function main(args: string[]): Promise<void> {
+  const [command = "up", ...rest] = args;
+
+  if (command === "status") {
+    const status = await getMigrationStatus();
+    for (const m of status) {
+      console.log(`${String(m.version).padStart(4, "0")} ${m.name.padEnd(32)} ${m.appliedAt ?? "pending"}`);
+    }
+    const pending = status.filter((m) => m.appliedAt === null).length;
+    console.log(pending > 0 ? `${pending} pending migration(s)` : "Database is up to date");
+    return;
+  }
+
+  if (command === "up") {
+    let to: number | undefined;
+    if (rest[0] === "--to") {
+      to = Number(rest[1]);
+      if (!Number.isInteger(to)) {
+        throw new Error(USAGE);
+      }
+    } else if (rest.length > 0) {
+      throw new Error(USAGE);
+    }
+
+    const applied = await runMigrations({ to });
+    for (const m of applied) {
+      console.log(`Applied ${m.file}`);
+    }
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Nothing to apply");
+    return;
+  }
+
+  throw new Error(USAGE);
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS symbols (
+  symbol TEXT PRIMARY KEY,
+  base_asset TEXT NOT NULL,
+  quote_asset TEXT NOT NULL,
+  tick_size NUMERIC NOT NULL,
+  listed_at BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO symbols (symbol, base_asset, quote_asset, tick_size, listed_at)
+VALUES ('BTCUSDT', 'BTC', 'USDT', 0.01, 1502942400000)
+ON CONFLICT (symbol) DO NOTHING;
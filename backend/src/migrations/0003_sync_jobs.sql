@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  from_time BIGINT NOT NULL,
+  to_time BIGINT NOT NULL,
+  cursor BIGINT NOT NULL,
+  pages_done INTEGER NOT NULL DEFAULT 0,
+  candles_inserted INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_pair
+ON sync_jobs(symbol, interval)
+WHERE status IN ('queued', 'running');
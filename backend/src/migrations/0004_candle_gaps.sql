@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS candle_known_gaps (
+  symbol TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  from_time BIGINT NOT NULL,
+  to_time BIGINT NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'exchange',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (symbol, interval, from_time)
+);
+
+ALTER TABLE sync_jobs
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'forward',
+  ADD COLUMN IF NOT EXISTS ranges JSONB NOT NULL DEFAULT '[]'::jsonb;
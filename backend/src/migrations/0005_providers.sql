@@ -0,0 +1,32 @@
+-- Databases created from a newer init.sql already have these columns and keys,
+-- so every step checks before it changes anything.
+ALTER TABLE candles ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'binance';
+ALTER TABLE candle_known_gaps ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'binance';
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'binance';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_schema = current_schema() AND constraint_name = 'candles_pkey' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE candles DROP CONSTRAINT candles_pkey, ADD PRIMARY KEY (provider, symbol, interval, open_time);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_schema = current_schema() AND constraint_name = 'candle_known_gaps_pkey' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE candle_known_gaps DROP CONSTRAINT candle_known_gaps_pkey, ADD PRIMARY KEY (provider, symbol, interval, from_time);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE schemaname = current_schema() AND indexname = 'idx_sync_jobs_active_pair' AND indexdef LIKE '%provider%'
+  ) THEN
+    DROP INDEX IF EXISTS idx_sync_jobs_active_pair;
+    CREATE UNIQUE INDEX idx_sync_jobs_active_pair
+    ON sync_jobs(provider, symbol, interval)
+    WHERE status IN ('queued', 'running');
+  END IF;
+END $$;
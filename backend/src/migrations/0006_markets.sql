@@ -0,0 +1,49 @@
+ALTER TABLE candles ADD COLUMN IF NOT EXISTS market TEXT NOT NULL DEFAULT 'spot';
+ALTER TABLE candle_known_gaps ADD COLUMN IF NOT EXISTS market TEXT NOT NULL DEFAULT 'spot';
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS market TEXT NOT NULL DEFAULT 'spot';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_schema = current_schema() AND constraint_name = 'candles_pkey' AND column_name = 'market'
+  ) THEN
+    ALTER TABLE candles DROP CONSTRAINT candles_pkey, ADD PRIMARY KEY (provider, market, symbol, interval, open_time);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_schema = current_schema() AND constraint_name = 'candle_known_gaps_pkey' AND column_name = 'market'
+  ) THEN
+    ALTER TABLE candle_known_gaps DROP CONSTRAINT candle_known_gaps_pkey, ADD PRIMARY KEY (provider, market, symbol, interval, from_time);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE schemaname = current_schema() AND indexname = 'idx_sync_jobs_active_pair' AND indexdef LIKE '%market%'
+  ) THEN
+    DROP INDEX IF EXISTS idx_sync_jobs_active_pair;
+    CREATE UNIQUE INDEX idx_sync_jobs_active_pair
+    ON sync_jobs(provider, market, symbol, interval)
+    WHERE status IN ('queued', 'running');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS funding_rates (
+  provider TEXT NOT NULL DEFAULT 'binance',
+  symbol TEXT NOT NULL,
+  funding_time BIGINT NOT NULL,
+  funding_rate NUMERIC NOT NULL,
+  mark_price NUMERIC,
+  PRIMARY KEY (provider, symbol, funding_time)
+);
+
+CREATE TABLE IF NOT EXISTS open_interest (
+  provider TEXT NOT NULL DEFAULT 'binance',
+  symbol TEXT NOT NULL,
+  period TEXT NOT NULL,
+  time BIGINT NOT NULL,
+  open_interest NUMERIC NOT NULL,
+  open_interest_value NUMERIC NOT NULL,
+  PRIMARY KEY (provider, symbol, period, time)
+);
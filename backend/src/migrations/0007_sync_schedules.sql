@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS sync_schedules (
+  id BIGSERIAL PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'binance',
+  market TEXT NOT NULL DEFAULT 'spot',
+  symbol TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_result TEXT,
+  last_error TEXT,
+  last_job_id BIGINT REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, market, symbol, interval)
+);
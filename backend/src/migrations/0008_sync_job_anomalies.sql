@@ -0,0 +1 @@
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS anomalies INTEGER;
@@ -0,0 +1,6 @@
+-- Null where the venue does not report them; older rows are backfilled by the next sync.
+ALTER TABLE candles
+  ADD COLUMN IF NOT EXISTS quote_volume NUMERIC,
+  ADD COLUMN IF NOT EXISTS trades BIGINT,
+  ADD COLUMN IF NOT EXISTS taker_buy_base_volume NUMERIC,
+  ADD COLUMN IF NOT EXISTS taker_buy_quote_volume NUMERIC;
@@ -0,0 +1,2 @@
+-- How a long/short position drawing played out; null while its entry has not been reached.
+ALTER TABLE drawings ADD COLUMN IF NOT EXISTS outcome JSONB;
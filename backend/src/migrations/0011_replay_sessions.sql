@@ -0,0 +1,17 @@
+-- Saved bar replays. Positions are candle open times rather than indexes into a loaded page.
+CREATE TABLE IF NOT EXISTS replay_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  market TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  start_time BIGINT NOT NULL,
+  cursor_time BIGINT NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_replay_sessions_updated_at
+ON replay_sessions(updated_at DESC);
@@ -0,0 +1,5 @@
+-- Jobs created before ranges were planned covered their whole window. Spell that out, so an
+-- empty list can mean a job with no candles to fetch (only funding and open interest).
+UPDATE sync_jobs
+SET ranges = jsonb_build_array(jsonb_build_object('fromTime', from_time, 'toTime', to_time))
+WHERE ranges = '[]'::jsonb;
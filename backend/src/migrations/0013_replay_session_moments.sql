@@ -0,0 +1,26 @@
+-- start_time and cursor_time of replay_sessions (0011) now hold replay moments, the end of the
+-- cursor candle, instead of candle open times. Shift rows saved before the change by one candle,
+-- so they resume where they were left.
+UPDATE replay_sessions AS s
+SET start_time = s.start_time + len.ms,
+    cursor_time = s.cursor_time + len.ms
+FROM (
+  VALUES
+    ('5m', 300000),
+    ('15m', 900000),
+    ('1h', 3600000),
+    ('2h', 7200000),
+    ('3h', 10800000),
+    ('4h', 14400000),
+    ('12h', 43200000),
+    ('1D', 86400000),
+    ('3D', 259200000),
+    ('1W', 604800000)
+) AS len(interval, ms)
+WHERE s.interval = len.interval;
+
+-- Months differ in length, so step the calendar.
+UPDATE replay_sessions
+SET start_time = (EXTRACT(EPOCH FROM (to_timestamp(start_time / 1000.0) AT TIME ZONE 'UTC') + INTERVAL '1 month') * 1000)::BIGINT,
+    cursor_time = (EXTRACT(EPOCH FROM (to_timestamp(cursor_time / 1000.0) AT TIME ZONE 'UTC') + INTERVAL '1 month') * 1000)::BIGINT
+WHERE interval = '1M';
@@ -0,0 +1,27 @@
+declare module "parquetjs-lite" {
+  import { Writable } from "node:stream";
+
+  type FieldDefinition = {
+    type: "BOOLEAN" | "INT32" | "INT64" | "FLOAT" | "DOUBLE" | "UTF8" | "TIMESTAMP_MILLIS";
+    optional?: boolean;
+    compression?: "UNCOMPRESSED" | "GZIP" | "SNAPPY";
+  };
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, FieldDefinition>);
+  }
+
+  export class ParquetWriter {
+    static openStream(schema: ParquetSchema, outputStream: Writable, opts?: { rowGroupSize?: number }): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    close(): Promise<void>;
+    setMetadata(key: string, value: string): void;
+  }
+
+  const parquet: {
+    ParquetSchema: typeof ParquetSchema;
+    ParquetWriter: typeof ParquetWriter;
+  };
+
+  export default parquet;
+}
@@ -0,0 +1,203 @@
+import { Candle, FundingRate, Interval, MarketType, OpenInterest, SymbolInfo } from "../types.js";
+import { createBinanceClient } from "./binanceClient.js";
+import { ProviderRequestError, RestClient } from "./restClient.js";
+import { streamBinanceKlines } from "./binanceStream.js";
+import { KlineQuery, MarketDataProvider } from "./types.js";
+
+// Spot and USDⓈ-M futures have separate hosts with separate weight budgets.
+const spotClient = createBinanceClient({
+  baseUrl: process.env.BINANCE_BASE_URL ?? "https://api.binance.com",
+  weightLimit: Number(process.env.BINANCE_WEIGHT_LIMIT ?? 6000),
+});
+
+const futuresClient = createBinanceClient({
+  baseUrl: process.env.BINANCE_FUTURES_BASE_URL ?? "https://fapi.binance.com",
+  weightLimit: Number(process.env.BINANCE_FUTURES_WEIGHT_LIMIT ?? 2400),
+});
+
+// Both markets serve the same kline rows.
+const klineEndpoints: Record<MarketType, { client: RestClient; path: string }> = {
+  spot: { client: spotClient, path: "/api/v3/klines" },
+  perp: { client: futuresClient, path: "/fapi/v1/klines" },
+};
+
+// Spot klines cost 2; futures klines cost more the larger the page.
+function klinesWeight(market: MarketType, limit: number): number {
+  if (market === "spot") {
+    return 2;
+  }
+  return limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
+}
+
+const intervalMap: Record<Interval, string> = {
+  "5m": "5m",
+  "15m": "15m",
+  "1h": "1h",
+  "4h": "4h",
+  "1D": "1d",
+  "1W": "1w",
+  "1M": "1M",
+};
+
+async function fetchKlines(params: KlineQuery): Promise<Candle[]> {
+  const { market, symbol, interval, startTime, endTime, limit = 1000, signal } = params;
+  const { client, path } = klineEndpoints[market];
+
+  const rows = await client.get<unknown[]>(
+    path,
+    {
+      symbol,
+      interval: intervalMap[interval],
+      startTime,
+      endTime,
+      limit,
+    },
+    { weight: klinesWeight(market, limit), signal }
+  );
+
+  return rows.map((item) => {
+    const row = item as [number, string, string, string, string, string, number, string, number, string, string];
+    return {
+      provider: "binance",
+      market,
+      symbol,
+      interval,
+      openTime: row[0],
+      open: Number(row[1]),
+      high: Number(row[2]),
+      low: Number(row[3]),
+      close: Number(row[4]),
+      volume: Number(row[5]),
+      closeTime: row[6],
+      quoteVolume: Number(row[7]),
+      trades: row[8],
+      takerBuyBaseVolume: Number(row[9]),
+      takerBuyQuoteVolume: Number(row[10]),
+    };
+  });
+}
+
+async function fetchSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+  let data: { symbols?: unknown[] };
+  try {
+    data = await spotClient.get("/api/v3/exchangeInfo", { symbol }, { weight: 20 });
+  } catch (error) {
+    // Binance answers unknown symbols with 400 "Invalid symbol."
+    if (error instanceof ProviderRequestError && error.status === 400) {
+      return null;
+    }
+    throw error;
+  }
+
+  const info = data.symbols?.[0] as
+    | {
+        symbol: string;
+        baseAsset: string;
+        quoteAsset: string;
+        filters: { filterType: string; tickSize?: string }[];
+      }
+    | undefined;
+
+  if (!info) {
+    return null;
+  }
+
+  const priceFilter = info.filters.find((f) => f.filterType === "PRICE_FILTER");
+
+  return {
+    symbol: info.symbol,
+    baseAsset: info.baseAsset,
+    quoteAsset: info.quoteAsset,
+    tickSize: Number(priceFilter?.tickSize ?? 0.01),
+    listedAt: await fetchFirstKlineTime(info.symbol, "spot"),
+  };
+}
+
+// Open time of the symbol's very first daily kline, i.e. roughly its listing date.
+async function fetchFirstKlineTime(symbol: string, market: MarketType): Promise<number | null> {
+  const { client, path } = klineEndpoints[market];
+  const rows = await client.get<[number][]>(
+    path,
+    { symbol, interval: "1d", startTime: 0, limit: 1 },
+    { weight: klinesWeight(market, 1) }
+  );
+  const firstRow = rows[0];
+  return firstRow ? firstRow[0] : null;
+}
+
+async function ping(): Promise<void> {
+  await spotClient.get("/api/v3/ping", {}, { weight: 1 });
+}
+
+export const binanceProvider: MarketDataProvider = {
+  id: "binance",
+  name: "Binance",
+  intervals: ["5m", "15m", "1h", "4h", "1D", "1W", "1M"],
+  markets: ["spot", "perp"],
+  pageLimit: 1000,
+  tradeStats: true,
+  fetchKlines,
+  fetchSymbolInfo,
+  fetchFirstKlineTime,
+  ping,
+  streamKlines: (query, handlers) => streamBinanceKlines(query, intervalMap[query.interval], handlers),
+};
+
+// Funding settles every 8 hours, so one page covers roughly a year.
+export const FUNDING_PAGE_LIMIT = 1000;
+
+/**
+ * Funding rate history of a USDⓈ-M perpetual, oldest first. Early entries have
+ * no mark price.
+ */
+export async function fetchFundingRates(params: {
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  signal?: AbortSignal;
+}): Promise<FundingRate[]> {
+  const { symbol, startTime, endTime, signal } = params;
+
+  const rows = await futuresClient.get<{ fundingTime: number; fundingRate: string; markPrice?: string }[]>(
+    "/fapi/v1/fundingRate",
+    { symbol, startTime, endTime, limit: FUNDING_PAGE_LIMIT },
+    { signal }
+  );
+
+  return rows.map((r) => ({
+    fundingTime: r.fundingTime,
+    fundingRate: Number(r.fundingRate),
+    markPrice: r.markPrice ? Number(r.markPrice) : null,
+  }));
+}
+
+export const OPEN_INTEREST_PAGE_LIMIT = 500;
+
+// Binance only keeps the most recent 30 days of open interest statistics.
+export const OPEN_INTEREST_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Open interest history of a USDⓈ-M perpetual sampled at the given period,
+ * oldest first. Only 5m to 1D periods exist.
+ */
+export async function fetchOpenInterest(params: {
+  symbol: string;
+  period: Interval;
+  startTime: number;
+  endTime: number;
+  signal?: AbortSignal;
+}): Promise<OpenInterest[]> {
+  const { symbol, period, startTime, endTime, signal } = params;
+
+  const rows = await futuresClient.get<{ timestamp: number; sumOpenInterest: string; sumOpenInterestValue: string }[]>(
+    "/futures/data/openInterestHist",
+    { symbol, period: intervalMap[period], startTime, endTime, limit: OPEN_INTEREST_PAGE_LIMIT },
+    { signal }
+  );
+
+  return rows.map((r) => ({
+    time: r.timestamp,
+    openInterest: Number(r.sumOpenInterest),
+    openInterestValue: Number(r.sumOpenInterestValue),
+  }));
+}
@@ -0,0 +1,36 @@
+import { AxiosResponse } from "axios";
+import { createRestClient, RestClient } from "./restClient.js";
+
+export type BinanceClientOptions = {
+  baseUrl: string;
+  // Request weight Binance allows per minute for this host.
+  weightLimit: number;
+  maxRetries?: number;
+  // Longer Retry-After values fail the request instead of waiting.
+  maxRetryAfterMs?: number;
+  timeoutMs?: number;
+};
+
+function usedWeightHeader(response: AxiosResponse): number | null {
+  const header = response.headers["x-mbx-used-weight-1m"] ?? response.headers["x-mbx-used-weight"];
+  return header !== undefined && Number.isFinite(Number(header)) ? Number(header) : null;
+}
+
+function binanceMessage(response: AxiosResponse): string | null {
+  const data = response.data as { code?: number; msg?: string } | undefined;
+  return data?.msg ? `${data.msg} (code ${data.code})` : null;
+}
+
+/**
+ * Creates a client for one Binance host. Binance reports the weight used this
+ * minute in X-MBX-USED-WEIGHT-1M and answers 418 once it has banned the IP.
+ */
+export function createBinanceClient(options: BinanceClientOptions): RestClient {
+  return createRestClient({
+    ...options,
+    venue: "Binance",
+    reportedWeight: usedWeightHeader,
+    banStatus: 418,
+    errorMessage: binanceMessage,
+  });
+}
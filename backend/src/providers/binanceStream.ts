@@ -0,0 +1,115 @@
+import WebSocket from "ws";
+import { Candle, MarketType } from "../types.js";
+import { KlineStream, KlineStreamHandlers, KlineStreamQuery } from "./types.js";
+
+const streamBaseUrls: Record<MarketType, string> = {
+  spot: process.env.BINANCE_WS_URL ?? "wss://stream.binance.com:9443",
+  perp: process.env.BINANCE_FUTURES_WS_URL ?? "wss://fstream.binance.com",
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+type KlineEvent = {
+  e: "kline";
+  k: {
+    t: number;
+    T: number;
+    o: string;
+    h: string;
+    l: string;
+    c: string;
+    v: string;
+    q: string;
+    n: number;
+    V: string;
+    Q: string;
+    x: boolean;
+  };
+};
+
+/**
+ * Subscribes to `<symbol>@kline_<interval>` on the Binance market stream.
+ * Binance drops every connection after 24 hours, so the stream reconnects
+ * with backoff until it is closed.
+ */
+export function streamBinanceKlines(
+  query: KlineStreamQuery,
+  streamInterval: string,
+  handlers: KlineStreamHandlers
+): KlineStream {
+  const { market, symbol, interval } = query;
+  const url = `${streamBaseUrls[market]}/ws/${symbol.toLowerCase()}@kline_${streamInterval}`;
+
+  let socket: WebSocket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const toCandle = (k: KlineEvent["k"]): Candle => ({
+    provider: "binance",
+    market,
+    symbol,
+    interval,
+    openTime: k.t,
+    closeTime: k.T,
+    open: Number(k.o),
+    high: Number(k.h),
+    low: Number(k.l),
+    close: Number(k.c),
+    volume: Number(k.v),
+    quoteVolume: Number(k.q),
+    trades: k.n,
+    takerBuyBaseVolume: Number(k.V),
+    takerBuyQuoteVolume: Number(k.Q),
+  });
+
+  const connect = () => {
+    socket = new WebSocket(url);
+
+    socket.on("open", () => {
+      attempt = 0;
+    });
+
+    socket.on("message", (data) => {
+      let event: KlineEvent;
+      try {
+        event = JSON.parse(data.toString()) as KlineEvent;
+      } catch {
+        return;
+      }
+      if (event.e === "kline") {
+        handlers.onCandle(toCandle(event.k), event.k.x);
+      }
+    });
+
+    // "close" follows every error, so reconnecting happens there.
+    socket.on("error", (error) => {
+      if (!closed) {
+        handlers.onError?.(error);
+      }
+    });
+
+    socket.on("close", () => {
+      socket = null;
+      if (closed) {
+        return;
+      }
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+      attempt += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    });
+  };
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { Candle, Interval, SymbolInfo } from "../types.js";
+import { createRestClient, ProviderRequestError } from "./restClient.js";
+import { KlineQuery, MarketDataProvider } from "./types.js";
+import { closeTimeOf, normalizeCandles, windowEnd } from "./util.js";
+
+// Bybit allows 600 requests per 5 seconds per IP and answers 403 once it has blocked one.
+const client = createRestClient({
+  venue: "Bybit",
+  baseUrl: process.env.BYBIT_BASE_URL ?? "https://api.bybit.com",
+  weightLimit: 600,
+  weightWindowMs: 5000,
+  banStatus: 403,
+});
+
+const PAGE_LIMIT = 1000;
+
+const intervalMap: Record<Interval, string> = {
+  "5m": "5",
+  "15m": "15",
+  "1h": "60",
+  "4h": "240",
+  "1D": "D",
+  "1W": "W",
+  "1M": "M",
+};
+
+type BybitResponse<T> = {
+  retCode: number;
+  retMsg: string;
+  result: T;
+};
+
+// Bybit reports most failures with HTTP 200 and a non-zero retCode.
+async function get<T>(path: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+  const data = await client.get<BybitResponse<T>>(path, params, { signal });
+  if (data.retCode !== 0) {
+    throw new ProviderRequestError(`Bybit ${path} rejected the request: ${data.retMsg} (retCode ${data.retCode})`, "rejected", 200);
+  }
+  return data.result;
+}
+
+async function fetchKlinePage(
+  symbol: string,
+  interval: Interval,
+  start: number,
+  end: number,
+  limit: number,
+  signal?: AbortSignal
+): Promise<string[][]> {
+  const result = await get<{ list: string[][] }>(
+    "/v5/market/kline",
+    {
+      category: "spot",
+      symbol,
+      interval: intervalMap[interval],
+      start,
+      end,
+      limit,
+    },
+    signal
+  );
+  return result.list;
+}
+
+// Bybit returns the newest candles of a range first, so each request covers a
+// window that holds at most one page. Empty windows (e.g. before listing) are
+// skipped until the range is exhausted.
+async function fetchKlines(params: KlineQuery): Promise<Candle[]> {
+  const { symbol, interval, endTime, signal } = params;
+  const limit = Math.min(params.limit ?? PAGE_LIMIT, PAGE_LIMIT);
+  let start = params.startTime;
+
+  while (start <= endTime) {
+    const end = windowEnd(start, endTime, interval, limit);
+    const rows = await fetchKlinePage(symbol, interval, start, end, limit, signal);
+
+    if (rows.length > 0) {
+      const candles = rows.map((row) => {
+        const openTime = Number(row[0]);
+        return {
+          provider: "bybit" as const,
+          market: "spot" as const,
+          symbol,
+          interval,
+          openTime,
+          closeTime: closeTimeOf(openTime, interval),
+          open: Number(row[1]),
+          high: Number(row[2]),
+          low: Number(row[3]),
+          close: Number(row[4]),
+          volume: Number(row[5]),
+          // Bybit reports turnover but neither trade counts nor taker volume.
+          quoteVolume: Number(row[6]),
+          trades: null,
+          takerBuyBaseVolume: null,
+          takerBuyQuoteVolume: null,
+        };
+      });
+      return normalizeCandles(candles, params.startTime, endTime);
+    }
+
+    start = end + 1;
+  }
+
+  return [];
+}
+
+async function fetchSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+  const result = await get<{
+    list: { symbol: string; baseCoin: string; quoteCoin: string; priceFilter: { tickSize: string } }[];
+  }>("/v5/market/instruments-info", { category: "spot", symbol });
+
+  const info = result.list[0];
+  if (!info) {
+    return null;
+  }
+
+  return {
+    symbol: info.symbol,
+    baseAsset: info.baseCoin,
+    quoteAsset: info.quoteCoin,
+    tickSize: Number(info.priceFilter.tickSize),
+    listedAt: await fetchFirstKlineTime(info.symbol),
+  };
+}
+
+async function fetchFirstKlineTime(symbol: string): Promise<number | null> {
+  // Newest first, so the last monthly candle is the oldest one.
+  const rows = await fetchKlinePage(symbol, "1M", 0, Date.now(), PAGE_LIMIT);
+  const oldest = rows[rows.length - 1];
+  return oldest ? Number(oldest[0]) : null;
+}
+
+async function ping(): Promise<void> {
+  await get("/v5/market/time", {});
+}
+
+export const bybitProvider: MarketDataProvider = {
+  id: "bybit",
+  name: "Bybit Spot",
+  intervals: ["5m", "15m", "1h", "4h", "1D", "1W", "1M"],
+  markets: ["spot"],
+  pageLimit: PAGE_LIMIT,
+  tradeStats: false,
+  fetchKlines,
+  fetchSymbolInfo,
+  fetchFirstKlineTime,
+  ping,
+};
@@ -0,0 +1,132 @@
+import { Candle, Interval, SymbolInfo } from "../types.js";
+import { createRestClient, ProviderRequestError } from "./restClient.js";
+import { KlineQuery, MarketDataProvider } from "./types.js";
+import { closeTimeOf, normalizeCandles, splitSymbol, windowEnd } from "./util.js";
+
+// Public endpoints allow 10 requests per second per IP.
+const client = createRestClient({
+  venue: "Coinbase",
+  baseUrl: process.env.COINBASE_BASE_URL ?? "https://api.exchange.coinbase.com",
+  weightLimit: 10,
+  weightWindowMs: 1000,
+  errorMessage: (response) => (response.data as { message?: string } | undefined)?.message ?? null,
+});
+
+const PAGE_LIMIT = 300;
+
+// Coinbase only offers 1m, 5m, 15m, 1h, 6h and 1d granularities.
+const granularityMap: Partial<Record<Interval, number>> = {
+  "5m": 300,
+  "15m": 900,
+  "1h": 3600,
+  "1D": 86400,
+};
+
+function toProductId(symbol: string): string {
+  const parts = splitSymbol(symbol);
+  if (!parts) {
+    throw new Error(`Cannot map ${symbol} to a Coinbase product`);
+  }
+  return `${parts.base}-${parts.quote}`;
+}
+
+async function fetchKlines(params: KlineQuery): Promise<Candle[]> {
+  const { symbol, interval, endTime, signal } = params;
+  const granularity = granularityMap[interval];
+  if (!granularity) {
+    throw new Error(`Coinbase does not support the ${interval} interval`);
+  }
+
+  const productId = toProductId(symbol);
+  const limit = Math.min(params.limit ?? PAGE_LIMIT, PAGE_LIMIT);
+  let start = params.startTime;
+
+  while (start <= endTime) {
+    const end = windowEnd(start, endTime, interval, limit);
+    // [time (s), low, high, open, close, volume], newest first.
+    const rows = await client.get<number[][]>(
+      `/products/${productId}/candles`,
+      {
+        granularity,
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+      },
+      { signal }
+    );
+
+    if (rows.length > 0) {
+      const candles = rows.map((row) => {
+        const openTime = row[0] * 1000;
+        return {
+          provider: "coinbase" as const,
+          market: "spot" as const,
+          symbol,
+          interval,
+          openTime,
+          closeTime: closeTimeOf(openTime, interval),
+          open: row[3],
+          high: row[2],
+          low: row[1],
+          close: row[4],
+          volume: row[5],
+          quoteVolume: null,
+          trades: null,
+          takerBuyBaseVolume: null,
+          takerBuyQuoteVolume: null,
+        };
+      });
+      return normalizeCandles(candles, params.startTime, endTime);
+    }
+
+    start = end + 1;
+  }
+
+  return [];
+}
+
+async function fetchSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+  const parts = splitSymbol(symbol);
+  if (!parts) {
+    return null;
+  }
+
+  let info: { base_currency: string; quote_currency: string; quote_increment: string };
+  try {
+    info = await client.get(`/products/${parts.base}-${parts.quote}`, {});
+  } catch (error) {
+    if (error instanceof ProviderRequestError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+
+  return {
+    symbol: `${info.base_currency}${info.quote_currency}`,
+    baseAsset: info.base_currency,
+    quoteAsset: info.quote_currency,
+    tickSize: Number(info.quote_increment),
+    listedAt: null,
+  };
+}
+
+// Coinbase exposes no listing date or long-range candles to derive one from.
+async function fetchFirstKlineTime(): Promise<number | null> {
+  return null;
+}
+
+async function ping(): Promise<void> {
+  await client.get("/time", {});
+}
+
+export const coinbaseProvider: MarketDataProvider = {
+  id: "coinbase",
+  name: "Coinbase Exchange",
+  intervals: ["5m", "15m", "1h", "1D"],
+  markets: ["spot"],
+  pageLimit: PAGE_LIMIT,
+  tradeStats: false,
+  fetchKlines,
+  fetchSymbolInfo,
+  fetchFirstKlineTime,
+  ping,
+};
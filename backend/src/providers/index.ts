@@ -0,0 +1,33 @@
+import { Interval, MarketType, ProviderId } from "../types.js";
+import { binanceProvider } from "./binance.js";
+import { bybitProvider } from "./bybit.js";
+import { coinbaseProvider } from "./coinbase.js";
+import { okxProvider } from "./okx.js";
+import { MarketDataProvider } from "./types.js";
+
+export type { KlineQuery, KlineStream, KlineStreamHandlers, KlineStreamQuery, MarketDataProvider } from "./types.js";
+
+export { DEFAULT_PROVIDER } from "../../../shared/api/index.js";
+
+export const providers: Record<ProviderId, MarketDataProvider> = {
+  binance: binanceProvider,
+  bybit: bybitProvider,
+  okx: okxProvider,
+  coinbase: coinbaseProvider,
+};
+
+export function getProvider(id: ProviderId): MarketDataProvider {
+  return providers[id];
+}
+
+export function providerSupportsMarket(id: ProviderId, market: MarketType): boolean {
+  return providers[id].markets.includes(market);
+}
+
+export function providerSupportsInterval(id: ProviderId, interval: Interval): boolean {
+  return providers[id].intervals.includes(interval);
+}
+
+export function providerSupportsLive(id: ProviderId): boolean {
+  return providers[id].streamKlines !== undefined;
+}
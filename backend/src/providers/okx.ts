@@ -0,0 +1,151 @@
+import { Candle, Interval, SymbolInfo } from "../types.js";
+import { createRestClient, ProviderRequestError } from "./restClient.js";
+import { KlineQuery, MarketDataProvider } from "./types.js";
+import { closeTimeOf, normalizeCandles, splitSymbol, windowEnd } from "./util.js";
+
+// History candles, the tightest endpoint used, allow 20 requests per 2 seconds per IP.
+const client = createRestClient({
+  venue: "OKX",
+  baseUrl: process.env.OKX_BASE_URL ?? "https://www.okx.com",
+  weightLimit: 20,
+  weightWindowMs: 2000,
+  errorMessage: (response) => {
+    const data = response.data as Partial<OkxResponse<unknown>> | undefined;
+    return data?.msg ? `${data.msg} (code ${data.code})` : null;
+  },
+});
+
+const PAGE_LIMIT = 100;
+
+// The "utc" bars align daily and longer candles to UTC midnight like Binance.
+const intervalMap: Record<Interval, string> = {
+  "5m": "5m",
+  "15m": "15m",
+  "1h": "1H",
+  "4h": "4H",
+  "1D": "1Dutc",
+  "1W": "1Wutc",
+  "1M": "1Mutc",
+};
+
+type OkxResponse<T> = {
+  code: string;
+  msg: string;
+  data: T;
+};
+
+async function get<T>(path: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+  const data = await client.get<OkxResponse<T>>(path, params, { signal });
+  if (data.code !== "0") {
+    throw new ProviderRequestError(`OKX ${path} rejected the request: ${data.msg} (code ${data.code})`, "rejected", 200);
+  }
+  return data.data;
+}
+
+function toInstId(symbol: string): string {
+  const parts = splitSymbol(symbol);
+  if (!parts) {
+    throw new Error(`Cannot map ${symbol} to an OKX instrument`);
+  }
+  return `${parts.base}-${parts.quote}`;
+}
+
+// `before`/`after` are exclusive bounds on the candle timestamp; results are newest first.
+async function fetchCandlePage(
+  instId: string,
+  bar: string,
+  params: { before?: number; after?: number; limit: number },
+  signal?: AbortSignal
+): Promise<string[][]> {
+  return get<string[][]>("/api/v5/market/history-candles", { instId, bar, ...params }, signal);
+}
+
+async function fetchKlines(params: KlineQuery): Promise<Candle[]> {
+  const { symbol, interval, endTime, signal } = params;
+  const instId = toInstId(symbol);
+  const limit = Math.min(params.limit ?? PAGE_LIMIT, PAGE_LIMIT);
+  let start = params.startTime;
+
+  while (start <= endTime) {
+    const end = windowEnd(start, endTime, interval, limit);
+    const rows = await fetchCandlePage(instId, intervalMap[interval], { before: start - 1, after: end + 1, limit }, signal);
+
+    if (rows.length > 0) {
+      const candles = rows.map((row) => {
+        const openTime = Number(row[0]);
+        return {
+          provider: "okx" as const,
+          market: "spot" as const,
+          symbol,
+          interval,
+          openTime,
+          closeTime: closeTimeOf(openTime, interval),
+          open: Number(row[1]),
+          high: Number(row[2]),
+          low: Number(row[3]),
+          close: Number(row[4]),
+          volume: Number(row[5]),
+          // volCcyQuote; OKX candles have no trade counts or taker volume.
+          quoteVolume: Number(row[7]),
+          trades: null,
+          takerBuyBaseVolume: null,
+          takerBuyQuoteVolume: null,
+        };
+      });
+      return normalizeCandles(candles, params.startTime, endTime);
+    }
+
+    start = end + 1;
+  }
+
+  return [];
+}
+
+async function fetchSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+  const parts = splitSymbol(symbol);
+  if (!parts) {
+    return null;
+  }
+
+  const data = await get<{ instId: string; baseCcy: string; quoteCcy: string; tickSz: string; listTime: string }[]>(
+    "/api/v5/public/instruments",
+    { instType: "SPOT", instId: `${parts.base}-${parts.quote}` }
+  );
+
+  const info = data[0];
+  if (!info) {
+    return null;
+  }
+
+  return {
+    symbol: `${info.baseCcy}${info.quoteCcy}`,
+    baseAsset: info.baseCcy,
+    quoteAsset: info.quoteCcy,
+    tickSize: Number(info.tickSz),
+    listedAt: info.listTime ? Number(info.listTime) : await fetchFirstKlineTime(symbol),
+  };
+}
+
+async function fetchFirstKlineTime(symbol: string): Promise<number | null> {
+  // Newest first, so the last monthly candle is the oldest one.
+  const rows = await fetchCandlePage(toInstId(symbol), intervalMap["1M"], { limit: PAGE_LIMIT });
+  const oldest = rows[rows.length - 1];
+  return oldest ? Number(oldest[0]) : null;
+}
+
+async function ping(): Promise<void> {
+  await get("/api/v5/public/time", {});
+}
+
+export const okxProvider: MarketDataProvider = {
+  id: "okx",
+  name: "OKX Spot",
+  intervals: ["5m", "15m", "1h", "4h", "1D", "1W", "1M"],
+  markets: ["spot"],
+  pageLimit: PAGE_LIMIT,
+  tradeStats: false,
+  fetchKlines,
+  fetchSymbolInfo,
+  fetchFirstKlineTime,
+  ping,
+};
@@ -0,0 +1,213 @@
+import axios, { AxiosError, AxiosResponse } from "axios";
+
+export type ProviderErrorKind = "rate_limited" | "ip_banned" | "rejected" | "unavailable";
+
+/**
+ * An exchange request that failed for good, after retries where retrying made
+ * sense. `retryAfterMs` is set when the exchange said how long to back off.
+ */
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ProviderErrorKind,
+    readonly status: number | null,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+export type RestClientOptions = {
+  // Exchange name used in error messages.
+  venue: string;
+  baseUrl: string;
+  // Request weight the exchange allows per window; plain requests weigh 1.
+  weightLimit: number;
+  weightWindowMs?: number;
+  // Weight the exchange reports as used in the current window, when it sends one.
+  reportedWeight?(response: AxiosResponse): number | null;
+  // Status the exchange answers with once it has banned the IP, like Binance's 418.
+  banStatus?: number;
+  // Error text from a failed response body, e.g. "Invalid symbol. (code -1121)".
+  errorMessage?(response: AxiosResponse): string | null;
+  maxRetries?: number;
+  // Longer Retry-After values fail the request instead of waiting.
+  maxRetryAfterMs?: number;
+  timeoutMs?: number;
+};
+
+export type RestRequestOptions = {
+  // Weight the exchange charges for the endpoint, used to throttle before sending.
+  weight?: number;
+  signal?: AbortSignal;
+};
+
+export type RestClient = {
+  get<T>(path: string, params: Record<string, unknown>, options?: RestRequestOptions): Promise<T>;
+  usedWeight(): number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30 * 1000;
+// Keep a margin for requests other clients on the same IP make.
+const WEIGHT_HEADROOM = 0.9;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Request aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Request aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Full jitter: anywhere between half and all of the exponential delay.
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function retryAfterMs(response: AxiosResponse): number | null {
+  const header = response.headers["retry-after"];
+  if (header === undefined) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(header));
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+/**
+ * Creates a client for one exchange host. It counts the weight used in the
+ * current window (trusting the exchange's own count when it reports one),
+ * waits for the next window when a request would exceed the budget, honors
+ * Retry-After on 429 and ban responses and retries 5xx responses and network
+ * errors with jittered exponential backoff.
+ */
+export function createRestClient(options: RestClientOptions): RestClient {
+  const {
+    venue,
+    baseUrl,
+    weightLimit,
+    weightWindowMs = MINUTE_MS,
+    reportedWeight,
+    banStatus,
+    errorMessage,
+    maxRetries = 5,
+    maxRetryAfterMs = 5 * MINUTE_MS,
+    timeoutMs = 20000,
+  } = options;
+
+  // Windows start at multiples of their length, like Binance's minutes.
+  let weightWindow = Math.floor(Date.now() / weightWindowMs);
+  let usedWeight = 0;
+
+  const currentWeight = (): number => {
+    const window = Math.floor(Date.now() / weightWindowMs);
+    if (window !== weightWindow) {
+      weightWindow = window;
+      usedWeight = 0;
+    }
+    return usedWeight;
+  };
+
+  const recordWeight = (response: AxiosResponse, weight: number) => {
+    const reported = reportedWeight?.(response) ?? null;
+    currentWeight();
+    usedWeight = reported ?? usedWeight + weight;
+  };
+
+  const throttle = async (weight: number, signal?: AbortSignal) => {
+    if (currentWeight() + weight <= weightLimit * WEIGHT_HEADROOM) {
+      return;
+    }
+    const nextWindowMs = (weightWindow + 1) * weightWindowMs;
+    await sleep(nextWindowMs - Date.now() + Math.random() * Math.min(1000, weightWindowMs), signal);
+  };
+
+  const describe = (response: AxiosResponse) => errorMessage?.(response) ?? `HTTP ${response.status}`;
+
+  const get = async <T>(path: string, params: Record<string, unknown>, requestOptions: RestRequestOptions = {}): Promise<T> => {
+    const { weight = 1, signal } = requestOptions;
+
+    for (let attempt = 0; ; attempt += 1) {
+      await throttle(weight, signal);
+
+      let response: AxiosResponse;
+      try {
+        response = await axios.get(`${baseUrl}${path}`, {
+          params,
+          signal,
+          timeout: timeoutMs,
+          validateStatus: () => true,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        const reason = error instanceof AxiosError ? error.code ?? error.message : String(error);
+        if (attempt >= maxRetries) {
+          throw new ProviderRequestError(`${venue} ${path} unreachable after ${attempt + 1} attempts: ${reason}`, "unavailable", null);
+        }
+        await sleep(backoffMs(attempt), signal);
+        continue;
+      }
+
+      recordWeight(response, weight);
+
+      if (response.status >= 200 && response.status < 300) {
+        return response.data as T;
+      }
+
+      if (response.status === 429 || response.status === banStatus) {
+        const kind = response.status === banStatus ? "ip_banned" : "rate_limited";
+        // Exchanges ban IPs that keep sending after a 429, so never retry early.
+        const waitMs = retryAfterMs(response) ?? backoffMs(attempt);
+        if (attempt >= maxRetries || waitMs > maxRetryAfterMs) {
+          const seconds = Math.ceil(waitMs / 1000);
+          throw new ProviderRequestError(
+            `${venue} ${kind === "ip_banned" ? "banned this IP" : "rate limit hit"} on ${path}; retry after ${seconds}s`,
+            kind,
+            response.status,
+            waitMs
+          );
+        }
+        await sleep(waitMs, signal);
+        continue;
+      }
+
+      if (response.status >= 500) {
+        if (attempt >= maxRetries) {
+          throw new ProviderRequestError(
+            `${venue} ${path} failed after ${attempt + 1} attempts: ${describe(response)}`,
+            "unavailable",
+            response.status
+          );
+        }
+        await sleep(backoffMs(attempt), signal);
+        continue;
+      }
+
+      throw new ProviderRequestError(`${venue} ${path} rejected the request: ${describe(response)}`, "rejected", response.status);
+    }
+  };
+
+  return {
+    get,
+    usedWeight: currentWeight,
+  };
+}
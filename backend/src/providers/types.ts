@@ -0,0 +1,57 @@
+import { Candle, Interval, MarketType, ProviderId, SymbolInfo } from "../types.js";
+
+export type KlineQuery = {
+  market: MarketType;
+  symbol: string;
+  interval: Interval;
+  startTime: number;
+  endTime: number;
+  limit?: number;
+  // Aborts the request, including any wait for rate limits.
+  signal?: AbortSignal;
+};
+
+export type KlineStreamQuery = {
+  market: MarketType;
+  symbol: string;
+  interval: Interval;
+};
+
+export type KlineStreamHandlers = {
+  // Every update of the forming candle; `closed` is set on its final update.
+  onCandle(candle: Candle, closed: boolean): void;
+  // Connection problems; the stream keeps reconnecting until closed.
+  onError?(error: Error): void;
+};
+
+export type KlineStream = {
+  close(): void;
+};
+
+/**
+ * A source of historical market data. Symbols are always passed in the
+ * registry's concatenated form (e.g. BTCUSDT); adapters translate them to the
+ * venue's own instrument ids.
+ */
+export interface MarketDataProvider {
+  id: ProviderId;
+  name: string;
+  intervals: readonly Interval[];
+  markets: readonly MarketType[];
+  // Most candles a single fetchKlines call can return.
+  pageLimit: number;
+  // Whether candles carry trade counts and taker buy volume.
+  tradeStats: boolean;
+  /**
+   * Returns up to `limit` candles whose open time lies in [startTime, endTime],
+   * oldest first. An empty result means there is nothing left in the range.
+   */
+  fetchKlines(query: KlineQuery): Promise<Candle[]>;
+  fetchSymbolInfo(symbol: string): Promise<SymbolInfo | null>;
+  // Open time of the first candle the venue has for the symbol, if it can tell.
+  fetchFirstKlineTime(symbol: string, market: MarketType): Promise<number | null>;
+  // Cheapest request the venue answers; rejects when it cannot be reached.
+  ping(): Promise<void>;
+  // Live updates of the forming candle. Venues without a stream leave this out.
+  streamKlines?(query: KlineStreamQuery, handlers: KlineStreamHandlers): KlineStream;
+}
@@ -0,0 +1,37 @@
+import { intervalCloseTime, shiftInterval } from "../intervals.js";
+import { Candle, Interval } from "../types.js";
+
+// Longest first so BTCUSDT splits as BTC/USDT rather than BTCUS/DT.
+const KNOWN_QUOTES = ["FDUSD", "USDT", "USDC", "BUSD", "TUSD", "EUR", "USD", "GBP", "BTC", "ETH", "BNB"];
+
+/**
+ * Splits a concatenated symbol into base and quote asset for venues that use
+ * separated instrument ids (BTC-USDT).
+ */
+export function splitSymbol(symbol: string): { base: string; quote: string } | null {
+  for (const quote of KNOWN_QUOTES) {
+    if (symbol.endsWith(quote) && symbol.length > quote.length) {
+      return { base: symbol.slice(0, -quote.length), quote };
+    }
+  }
+  return null;
+}
+
+/**
+ * End of a request window holding at most `limit` candles from `startTime`,
+ * for venues that return the newest candles of a range first.
+ */
+export function windowEnd(startTime: number, endTime: number, interval: Interval, limit: number): number {
+  return Math.min(endTime, shiftInterval(startTime, interval, limit) - 1);
+}
+
+export function closeTimeOf(openTime: number, interval: Interval): number {
+  return intervalCloseTime(openTime, interval);
+}
+
+// Keeps candles inside [startTime, endTime] and orders them oldest first.
+export function normalizeCandles(candles: Candle[], startTime: number, endTime: number): Candle[] {
+  return candles
+    .filter((c) => c.openTime >= startTime && c.openTime <= endTime)
+    .sort((a, b) => a.openTime - b.openTime);
+}
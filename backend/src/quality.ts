@@ -0,0 +1,140 @@
+import { readCandlePages, toCandle } from "./candles.js";
+import { intervalCloseTime, intervalStart } from "./intervals.js";
+import { pool } from "./lib/db.js";
+import {
+  Candle,
+  CandleAnomaly,
+  CandleAnomalyKind,
+  CandleQualityReport,
+  ChartInterval,
+  MarketType,
+  ProviderId,
+} from "./types.js";
+
+// Single zero-volume candles are normal on quiet pairs; longer runs usually mean a feed outage.
+const ZERO_VOLUME_RUN_MIN = 3;
+const MAX_LISTED_ANOMALIES = 1000;
+
+/**
+ * Checks stored candles of a pair in [from, to] for rows that cannot be right:
+ * inverted or inconsistent OHLC values, runs of zero volume, close times or
+ * open times that do not match the interval, and several candles sharing one
+ * interval period (left behind when interval boundaries were redefined).
+ */
+export async function validateCandles(
+  provider: ProviderId,
+  market: MarketType,
+  symbol: string,
+  interval: ChartInterval,
+  options: { from?: number; to?: number } = {}
+): Promise<CandleQualityReport> {
+  const from = options.from ?? 0;
+  const to = options.to ?? Date.now();
+
+  const anomalies: CandleAnomaly[] = [];
+  const counts: Partial<Record<CandleAnomalyKind, number>> = {};
+  let total = 0;
+  let checked = 0;
+
+  const report = (kind: CandleAnomalyKind, fromTime: number, toTime: number, detail: string) => {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    total += 1;
+    if (anomalies.length < MAX_LISTED_ANOMALIES) {
+      anomalies.push({ kind, fromTime, toTime, detail });
+    }
+  };
+
+  let previous: Candle | null = null;
+  // Consecutive zero-volume candles ending at `previous`.
+  let zeroRunLength = 0;
+  let zeroRunStart = 0;
+
+  const endZeroRun = (lastOpenTime: number) => {
+    if (zeroRunLength >= ZERO_VOLUME_RUN_MIN) {
+      report("zero_volume_run", zeroRunStart, lastOpenTime, `${zeroRunLength} candles without volume`);
+    }
+    zeroRunLength = 0;
+  };
+
+  for await (const page of readCandlePages(provider, market, symbol, interval, from, to)) {
+    for (const row of page) {
+      const c = toCandle(row);
+      checked += 1;
+
+      if (c.high < c.low) {
+        report("high_below_low", c.openTime, c.openTime, `high ${c.high} is below low ${c.low}`);
+      } else {
+        if (c.open > c.high || c.open < c.low) {
+          report("open_out_of_range", c.openTime, c.openTime, `open ${c.open} outside ${c.low}-${c.high}`);
+        }
+        if (c.close > c.high || c.close < c.low) {
+          report("close_out_of_range", c.openTime, c.openTime, `close ${c.close} outside ${c.low}-${c.high}`);
+        }
+      }
+
+      const expectedCloseTime = intervalCloseTime(c.openTime, interval);
+      if (c.closeTime !== expectedCloseTime) {
+        report("close_time_mismatch", c.openTime, c.openTime, `close time ${c.closeTime}, expected ${expectedCloseTime}`);
+      }
+
+      const periodStart = intervalStart(c.openTime, interval);
+      if (periodStart !== c.openTime) {
+        report("misaligned_open_time", c.openTime, c.openTime, `open time is not a ${interval} boundary`);
+      }
+
+      if (previous && intervalStart(previous.openTime, interval) === periodStart) {
+        report("duplicate_period", previous.openTime, c.openTime, `two candles in the ${interval} period`);
+      }
+
+      if (c.volume === 0) {
+        if (zeroRunLength === 0) {
+          zeroRunStart = c.openTime;
+        }
+        zeroRunLength += 1;
+      } else if (previous) {
+        endZeroRun(previous.openTime);
+      }
+
+      previous = c;
+    }
+  }
+  if (previous) {
+    endZeroRun(previous.openTime);
+  }
+
+  return {
+    provider,
+    market,
+    symbol,
+    interval,
+    from,
+    to,
+    checked,
+    total,
+    counts,
+    anomalies,
+    truncated: total > anomalies.length,
+  };
+}
+
+// Every stored (symbol, interval) pair of a provider and market, optionally narrowed down.
+export async function listStoredPairs(
+  provider: ProviderId,
+  market: MarketType,
+  filter: { symbol?: string; interval?: ChartInterval } = {}
+): Promise<{ symbol: string; interval: ChartInterval }[]> {
+  const rows = await pool.query<{ symbol: string; interval: string }>(
+    `
+      SELECT DISTINCT symbol, interval
+      FROM candles
+      WHERE provider = $1
+      AND market = $2
+      AND ($3::text IS NULL OR symbol = $3)
+      AND ($4::text IS NULL OR interval = $4)
+      ORDER BY symbol ASC, interval ASC
+    `,
+    [provider, market, filter.symbol ?? null, filter.interval ?? null]
+  );
+
+  return rows.rows.map((r) => ({ symbol: r.symbol, interval: r.interval as ChartInterval }));
+}
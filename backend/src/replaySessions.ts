@@ -0,0 +1,116 @@
+import { pool } from "./lib/db.js";
+import { ChartInterval, MarketType, ProviderId, ReplaySession, ReplaySessionSettings } from "./types.js";
+
+const SESSION_COLUMNS = `
+  id, name, provider, market, symbol, interval, start_time, cursor_time, settings, created_at, updated_at
+`;
+
+type ReplaySessionRow = {
+  id: string;
+  name: string;
+  provider: string;
+  market: string;
+  symbol: string;
+  interval: string;
+  start_time: string;
+  cursor_time: string;
+  // Sessions saved before intrabar replay existed have no flag.
+  settings: Omit<ReplaySessionSettings, "intrabar"> & { intrabar?: boolean };
+  created_at: Date;
+  updated_at: Date;
+};
+
+function toReplaySession(r: ReplaySessionRow): ReplaySession {
+  return {
+    id: Number(r.id),
+    name: r.name,
+    provider: r.provider as ProviderId,
+    market: r.market as MarketType,
+    symbol: r.symbol,
+    interval: r.interval as ChartInterval,
+    startTime: Number(r.start_time),
+    currentTime: Number(r.cursor_time),
+    settings: { ...r.settings, intrabar: r.settings.intrabar ?? false },
+    createdAt: r.created_at.toISOString(),
+    updatedAt: r.updated_at.toISOString(),
+  };
+}
+
+export async function getReplaySession(id: number): Promise<ReplaySession | null> {
+  const row = await pool.query<ReplaySessionRow>(`SELECT ${SESSION_COLUMNS} FROM replay_sessions WHERE id = $1`, [id]);
+  return row.rows[0] ? toReplaySession(row.rows[0]) : null;
+}
+
+export async function listReplaySessions(): Promise<ReplaySession[]> {
+  const rows = await pool.query<ReplaySessionRow>(
+    `
+      SELECT ${SESSION_COLUMNS}
+      FROM replay_sessions
+      ORDER BY updated_at DESC, id DESC
+    `
+  );
+  return rows.rows.map(toReplaySession);
+}
+
+export async function createReplaySession(input: {
+  name: string;
+  provider: ProviderId;
+  market: MarketType;
+  symbol: string;
+  interval: ChartInterval;
+  startTime: number;
+  currentTime: number;
+  settings: ReplaySessionSettings;
+}): Promise<ReplaySession> {
+  const row = await pool.query<ReplaySessionRow>(
+    `
+      INSERT INTO replay_sessions (name, provider, market, symbol, interval, start_time, cursor_time, settings)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+      RETURNING ${SESSION_COLUMNS}
+    `,
+    [
+      input.name,
+      input.provider,
+      input.market,
+      input.symbol,
+      input.interval,
+      input.startTime,
+      input.currentTime,
+      JSON.stringify(input.settings),
+    ]
+  );
+  return toReplaySession(row.rows[0]);
+}
+
+// Returns null when the session does not exist.
+export async function updateReplaySession(
+  id: number,
+  fields: { name?: string; interval?: ChartInterval; currentTime?: number; settings?: ReplaySessionSettings }
+): Promise<ReplaySession | null> {
+  const current = await getReplaySession(id);
+  if (!current) {
+    return null;
+  }
+
+  const row = await pool.query<ReplaySessionRow>(
+    `
+      UPDATE replay_sessions
+      SET name = $2, interval = $3, cursor_time = $4, settings = $5::jsonb, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${SESSION_COLUMNS}
+    `,
+    [
+      id,
+      fields.name ?? current.name,
+      fields.interval ?? current.interval,
+      fields.currentTime ?? current.currentTime,
+      JSON.stringify(fields.settings ?? current.settings),
+    ]
+  );
+  return row.rows[0] ? toReplaySession(row.rows[0]) : null;
+}
+
+export async function deleteReplaySession(id: number): Promise<boolean> {
+  const deleted = await pool.query("DELETE FROM replay_sessions WHERE id = $1", [id]);
+  return deleted.rowCount === 1;
+}
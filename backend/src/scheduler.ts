@@ -0,0 +1,235 @@
+import { pool } from "./lib/db.js";
+import { log } from "./lib/log.js";
+import { nextCronTime, parseCron } from "./cron.js";
+import { createSyncJob } from "./sync.js";
+import {
+  Interval,
+  MarketType,
+  ProviderId,
+  SyncJobStatus,
+  SyncSchedule,
+  SyncScheduleResult,
+} from "./types.js";
+
+const TICK_MS = Number(process.env.SCHEDULER_TICK_MS ?? 30000);
+
+const SCHEDULE_COLUMNS = `
+  s.id, s.provider, s.market, s.symbol, s.interval, s.cron, s.enabled, s.next_run_at, s.last_run_at,
+  s.last_result, s.last_error, s.last_job_id, j.status AS last_job_status, s.created_at, s.updated_at
+`;
+
+type SyncScheduleRow = {
+  id: string;
+  provider: string;
+  market: string;
+  symbol: string;
+  interval: string;
+  cron: string;
+  enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_result: string | null;
+  last_error: string | null;
+  last_job_id: string | null;
+  last_job_status: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function toSyncSchedule(r: SyncScheduleRow): SyncSchedule {
+  return {
+    id: Number(r.id),
+    provider: r.provider as ProviderId,
+    market: r.market as MarketType,
+    symbol: r.symbol,
+    interval: r.interval as Interval,
+    cron: r.cron,
+    enabled: r.enabled,
+    nextRunAt: r.next_run_at ? r.next_run_at.toISOString() : null,
+    lastRunAt: r.last_run_at ? r.last_run_at.toISOString() : null,
+    lastResult: r.last_result as SyncScheduleResult | null,
+    lastError: r.last_error,
+    lastJobId: r.last_job_id === null ? null : Number(r.last_job_id),
+    lastJobStatus: r.last_job_status as SyncJobStatus | null,
+    createdAt: r.created_at.toISOString(),
+    updatedAt: r.updated_at.toISOString(),
+  };
+}
+
+// Throws with a readable message when the expression is not valid cron.
+function nextRunAt(cron: string, afterMs = Date.now()): Date | null {
+  const next = nextCronTime(parseCron(cron), afterMs);
+  return next === null ? null : new Date(next);
+}
+
+export async function getSyncSchedule(id: number): Promise<SyncSchedule | null> {
+  const row = await pool.query<SyncScheduleRow>(
+    `
+      SELECT ${SCHEDULE_COLUMNS}
+      FROM sync_schedules s
+      LEFT JOIN sync_jobs j ON j.id = s.last_job_id
+      WHERE s.id = $1
+    `,
+    [id]
+  );
+  return row.rows[0] ? toSyncSchedule(row.rows[0]) : null;
+}
+
+export async function listSyncSchedules(): Promise<SyncSchedule[]> {
+  const rows = await pool.query<SyncScheduleRow>(
+    `
+      SELECT ${SCHEDULE_COLUMNS}
+      FROM sync_schedules s
+      LEFT JOIN sync_jobs j ON j.id = s.last_job_id
+      ORDER BY s.symbol ASC, s.provider ASC, s.market ASC, s.interval ASC
+    `
+  );
+  return rows.rows.map(toSyncSchedule);
+}
+
+/**
+ * Adds a pair to the watchlist. Returns null when the pair already has a
+ * schedule. The cron expression must have passed cronSchema.
+ */
+export async function createSyncSchedule(input: {
+  provider: ProviderId;
+  market: MarketType;
+  symbol: string;
+  interval: Interval;
+  cron: string;
+  enabled: boolean;
+}): Promise<SyncSchedule | null> {
+  const row = await pool.query<{ id: string }>(
+    `
+      INSERT INTO sync_schedules (provider, market, symbol, interval, cron, enabled, next_run_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (provider, market, symbol, interval) DO NOTHING
+      RETURNING id
+    `,
+    [input.provider, input.market, input.symbol, input.interval, input.cron, input.enabled, nextRunAt(input.cron)]
+  );
+
+  return row.rows[0] ? getSyncSchedule(Number(row.rows[0].id)) : null;
+}
+
+export async function updateSyncSchedule(id: number, fields: { cron?: string; enabled?: boolean }): Promise<SyncSchedule | null> {
+  const current = await getSyncSchedule(id);
+  if (!current) {
+    return null;
+  }
+
+  const cron = fields.cron ?? current.cron;
+  const enabled = fields.enabled ?? current.enabled;
+
+  await pool.query(
+    `
+      UPDATE sync_schedules
+      SET cron = $2, enabled = $3, next_run_at = $4, updated_at = NOW()
+      WHERE id = $1
+    `,
+    [id, cron, enabled, nextRunAt(cron)]
+  );
+
+  return getSyncSchedule(id);
+}
+
+export async function deleteSyncSchedule(id: number): Promise<boolean> {
+  const deleted = await pool.query("DELETE FROM sync_schedules WHERE id = $1", [id]);
+  return deleted.rowCount === 1;
+}
+
+/**
+ * Starts a forward sync for the schedule's pair, the same job POST /api/sync
+ * creates. An active job for the pair is left alone and reported as
+ * "already_running", so runs never overlap.
+ */
+async function runSchedule(schedule: SyncSchedule): Promise<void> {
+  let result: SyncScheduleResult;
+  let jobId = schedule.lastJobId;
+  let error: string | null = null;
+
+  try {
+    const created = await createSyncJob({
+      provider: schedule.provider,
+      market: schedule.market,
+      symbol: schedule.symbol,
+      interval: schedule.interval,
+      mode: "forward",
+    });
+    if (!created) {
+      result = "up_to_date";
+    } else {
+      result = created.created ? "started" : "already_running";
+      jobId = created.job.id;
+    }
+  } catch (e) {
+    result = "failed";
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  await pool.query(
+    `
+      UPDATE sync_schedules
+      SET last_run_at = NOW(), last_result = $2, last_error = $3, last_job_id = $4
+      WHERE id = $1
+    `,
+    [schedule.id, result, error, jobId]
+  );
+}
+
+export async function runSyncScheduleNow(id: number): Promise<SyncSchedule | null> {
+  const schedule = await getSyncSchedule(id);
+  if (!schedule) {
+    return null;
+  }
+  await runSchedule(schedule);
+  return getSyncSchedule(id);
+}
+
+async function runDueSchedules(): Promise<void> {
+  const due = await pool.query<SyncScheduleRow>(
+    `
+      SELECT ${SCHEDULE_COLUMNS}
+      FROM sync_schedules s
+      LEFT JOIN sync_jobs j ON j.id = s.last_job_id
+      WHERE s.enabled AND s.next_run_at <= NOW()
+      ORDER BY s.next_run_at ASC
+    `
+  );
+
+  for (const row of due.rows) {
+    // Claim the run by moving next_run_at; another backend that read the same row loses.
+    const claimed = await pool.query(
+      "UPDATE sync_schedules SET next_run_at = $2 WHERE id = $1 AND next_run_at = $3",
+      [row.id, nextRunAt(row.cron), row.next_run_at]
+    );
+    if (claimed.rowCount === 1) {
+      await runSchedule(toSyncSchedule(row));
+    }
+  }
+}
+
+let ticking = false;
+
+/**
+ * Checks for due schedules every SCHEDULER_TICK_MS. A tick that is still busy
+ * when the next one fires is skipped rather than run alongside it.
+ */
+export function startScheduler(): void {
+  const tick = async () => {
+    if (ticking) {
+      return;
+    }
+    ticking = true;
+    try {
+      await runDueSchedules();
+    } catch (error) {
+      log.error("Scheduled sync failed", { error });
+    } finally {
+      ticking = false;
+    }
+  };
+
+  setInterval(() => void tick(), TICK_MS);
+  void tick();
+}
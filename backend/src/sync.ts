@@ -0,0 +1,507 @@
+import { EventEmitter } from "node:events";
+import { pool } from "./lib/db.js";
+import { log } from "./lib/log.js";
+import { nextIntervalStart, shiftInterval } from "./intervals.js";
+import { DEFAULT_PROVIDER, getProvider } from "./providers/index.js";
+import { insertCandles } from "./candles.js";
+import { hasDerivatives, planDerivatives, syncDerivatives } from "./derivatives.js";
+import { findCandleGaps, recordKnownGaps } from "./gaps.js";
+import { validateCandles } from "./quality.js";
+import { Interval, MarketType, ProviderId, SyncJob, SyncJobMode, SyncJobStatus, TimeRange } from "./types.js";
+
+// Default history window when the caller does not ask for a range.
+const HISTORY_MS = 2 * 365 * 24 * 60 * 60 * 1000;
+
+const JOB_COLUMNS = `
+  id, provider, market, symbol, interval, status, mode, ranges, from_time, to_time, cursor, pages_done,
+  candles_inserted, anomalies, error, created_at, updated_at, finished_at
+`;
+
+type SyncJobRow = {
+  id: string;
+  provider: string;
+  market: string;
+  symbol: string;
+  interval: string;
+  status: string;
+  mode: string;
+  ranges: TimeRange[];
+  from_time: string;
+  to_time: string;
+  cursor: string;
+  pages_done: number;
+  candles_inserted: number;
+  anomalies: number | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+};
+
+// Emits `job:<id>` with the latest SyncJob snapshot after every state change.
+export const syncEvents = new EventEmitter();
+syncEvents.setMaxListeners(0);
+
+const runningJobs = new Map<number, AbortController>();
+
+function toSyncJob(r: SyncJobRow): SyncJob {
+  return {
+    id: Number(r.id),
+    provider: r.provider as ProviderId,
+    market: r.market as MarketType,
+    symbol: r.symbol,
+    interval: r.interval as Interval,
+    status: r.status as SyncJobStatus,
+    mode: r.mode as SyncJobMode,
+    ranges: r.ranges,
+    fromTime: Number(r.from_time),
+    toTime: Number(r.to_time),
+    cursor: Number(r.cursor),
+    pagesDone: r.pages_done,
+    candlesInserted: r.candles_inserted,
+    anomalies: r.anomalies,
+    error: r.error,
+    createdAt: r.created_at.toISOString(),
+    updatedAt: r.updated_at.toISOString(),
+    finishedAt: r.finished_at ? r.finished_at.toISOString() : null,
+  };
+}
+
+export function isTerminalStatus(status: SyncJobStatus): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+// With `activeOnly`, a job that already finished or was cancelled is left alone and null is returned.
+async function updateJob(id: number, fields: Partial<Record<string, unknown>>, activeOnly = false): Promise<SyncJob | null> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [column, value] of Object.entries(fields)) {
+    values.push(value);
+    sets.push(`${column} = $${values.length}`);
+  }
+
+  values.push(id);
+
+  const row = await pool.query<SyncJobRow>(
+    `
+      UPDATE sync_jobs
+      SET ${sets.join(", ")}, updated_at = NOW()
+      WHERE id = $${values.length}${activeOnly ? " AND status IN ('queued', 'running')" : ""}
+      RETURNING ${JOB_COLUMNS}
+    `,
+    values
+  );
+
+  const job = row.rows[0] ? toSyncJob(row.rows[0]) : null;
+  if (job) {
+    syncEvents.emit(`job:${job.id}`, job);
+  }
+  return job;
+}
+
+async function runJob(job: SyncJob): Promise<void> {
+  if (runningJobs.has(job.id)) {
+    return;
+  }
+
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  const provider = getProvider(job.provider);
+  const ranges = job.ranges;
+  let cursor = job.cursor;
+  let pagesDone = job.pagesDone;
+  let inserted = job.candlesInserted;
+
+  try {
+    // A cancel that landed while the job was queued must not be turned back into a run.
+    if (!(await updateJob(job.id, { status: "running" }, true))) {
+      return;
+    }
+
+    for (const range of ranges) {
+      if (range.toTime < cursor) {
+        continue;
+      }
+
+      cursor = Math.max(cursor, range.fromTime);
+
+      while (cursor <= range.toTime && !controller.signal.aborted) {
+        const batch = await provider.fetchKlines({
+          market: job.market,
+          symbol: job.symbol,
+          interval: job.interval,
+          startTime: cursor,
+          endTime: range.toTime,
+          limit: provider.pageLimit,
+          signal: controller.signal,
+        });
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        inserted += await insertCandles(batch);
+        pagesDone += 1;
+        cursor = nextIntervalStart(batch[batch.length - 1].openTime, job.interval);
+
+        await updateJob(job.id, { cursor, pages_done: pagesDone, candles_inserted: inserted });
+      }
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      if (job.mode === "repair") {
+        // Whatever is still missing after a refetch does not exist on the exchange
+        // (maintenance windows), so remember it instead of fetching it again next run.
+        const remaining = await findCandleGaps(job.provider, job.market, job.symbol, job.interval, {
+          from: shiftInterval(range.fromTime, job.interval, -1),
+          to: shiftInterval(range.toTime, job.interval, 1),
+        });
+        await recordKnownGaps(job.provider, job.market, job.symbol, job.interval, remaining);
+        cursor = Math.max(cursor, nextIntervalStart(range.toTime, job.interval));
+        await updateJob(job.id, { cursor });
+      }
+    }
+
+    if (hasDerivatives(job.provider, job.market)) {
+      // Planned again here so a resumed job skips what it already stored. Funding and open
+      // interest are not candles, so they only show up in the inserted count.
+      const derivatives = await planDerivatives(job.symbol, job.interval, job.fromTime, job.toTime);
+      if (derivatives) {
+        inserted += await syncDerivatives(job.symbol, job.interval, derivatives, controller.signal);
+      }
+      if (controller.signal.aborted) {
+        return;
+      }
+    }
+
+    const quality = await validateCandles(job.provider, job.market, job.symbol, job.interval, {
+      from: job.fromTime,
+      to: job.toTime,
+    });
+    if (quality.total > 0) {
+      log.warn("Candle anomalies after sync", {
+        jobId: job.id,
+        provider: job.provider,
+        market: job.market,
+        symbol: job.symbol,
+        interval: job.interval,
+        total: quality.total,
+        counts: quality.counts,
+      });
+    }
+
+    // A cancel during validation already recorded the final status.
+    if (controller.signal.aborted) {
+      return;
+    }
+    await updateJob(
+      job.id,
+      {
+        status: "completed",
+        candles_inserted: inserted,
+        anomalies: quality.total,
+        finished_at: new Date(),
+      },
+      true
+    );
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // Cancelled mid-request; cancelSyncJob already recorded the final status.
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // Nothing awaits runJob, so a database failure here must not escape as an unhandled rejection.
+    await updateJob(job.id, { status: "failed", error: message, finished_at: new Date() }, true).catch((writeError: unknown) => {
+      log.error("Failed to record sync job failure", { jobId: job.id, reason: message, error: writeError });
+    });
+  } finally {
+    runningJobs.delete(job.id);
+  }
+}
+
+type SyncPlan = {
+  fromTime: number;
+  toTime: number;
+  ranges: TimeRange[];
+};
+
+export type SyncWindow = {
+  from?: number;
+  to?: number;
+  sinceListing?: boolean;
+};
+
+export type SyncRequest = {
+  provider: ProviderId;
+  market: MarketType;
+  symbol: string;
+  interval: Interval;
+  mode?: SyncJobMode;
+  window?: SyncWindow;
+};
+
+// The registry's listing date is the default provider's spot listing; other
+// venues and futures markets are asked directly.
+async function resolveListingTime(providerId: ProviderId, market: MarketType, symbol: string): Promise<number | null> {
+  if (providerId !== DEFAULT_PROVIDER || market !== "spot") {
+    return getProvider(providerId).fetchFirstKlineTime(symbol, market);
+  }
+
+  const row = await pool.query<{ listed_at: string | null }>("SELECT listed_at FROM symbols WHERE symbol = $1", [symbol]);
+  const stored = row.rows[0]?.listed_at;
+  if (stored !== null && stored !== undefined) {
+    return Number(stored);
+  }
+
+  const listedAt = await getProvider(providerId).fetchFirstKlineTime(symbol, market);
+  if (listedAt !== null) {
+    await pool.query("UPDATE symbols SET listed_at = $2 WHERE symbol = $1", [symbol, listedAt]);
+  }
+  return listedAt;
+}
+
+// The requested window: two years up to now by default, or since listing.
+async function resolveWindow(request: SyncRequest): Promise<{ from: number; to: number }> {
+  const { provider, market, symbol, window = {} } = request;
+  const now = Date.now();
+  const to = Math.min(window.to ?? now, now);
+  let from = window.from ?? now - HISTORY_MS;
+
+  if (window.sinceListing) {
+    from = (await resolveListingTime(provider, market, symbol)) ?? from;
+  }
+  return { from, to };
+}
+
+/**
+ * Plans the ranges of [from, to] that lie outside what is already stored for the
+ * pair: older history before the first stored candle and newer data after the last.
+ * On venues with trade statistics, stored candles that predate those columns are
+ * refetched as well so they get backfilled.
+ */
+async function planForward(request: SyncRequest, from: number, to: number): Promise<SyncPlan | null> {
+  const { provider, market, symbol, interval } = request;
+
+  const storedRow = await pool.query(
+    `
+      SELECT
+        MIN(open_time) AS min_open_time,
+        MAX(open_time) AS max_open_time,
+        MIN(open_time) FILTER (WHERE taker_buy_base_volume IS NULL AND open_time BETWEEN $5 AND $6) AS min_missing_stats,
+        MAX(open_time) FILTER (WHERE taker_buy_base_volume IS NULL AND open_time BETWEEN $5 AND $6) AS max_missing_stats
+      FROM candles
+      WHERE provider = $1 AND market = $2 AND symbol = $3 AND interval = $4
+    `,
+    [provider, market, symbol, interval, from, to]
+  );
+
+  const minOpenTime = Number(storedRow.rows[0]?.min_open_time ?? 0);
+  const maxOpenTime = Number(storedRow.rows[0]?.max_open_time ?? 0);
+  const minMissingStats = storedRow.rows[0]?.min_missing_stats ?? null;
+  const maxMissingStats = storedRow.rows[0]?.max_missing_stats ?? null;
+  if (maxOpenTime === 0) {
+    return { fromTime: from, toTime: to, ranges: [{ fromTime: from, toTime: to }] };
+  }
+
+  const ranges: TimeRange[] = [];
+
+  if (from < minOpenTime) {
+    ranges.push({ fromTime: from, toTime: Math.min(to, shiftInterval(minOpenTime, interval, -1)) });
+  }
+
+  // Re-fetch one previous candle to avoid edge gaps between sync runs.
+  const newerFrom = to > maxOpenTime ? Math.max(from, shiftInterval(maxOpenTime, interval, -1)) : null;
+
+  // Ranges must stay in order and apart, since the job cursor only moves forward.
+  if (getProvider(provider).tradeStats && minMissingStats !== null && maxMissingStats !== null) {
+    const backfillTo = newerFrom === null ? Number(maxMissingStats) : Math.min(Number(maxMissingStats), newerFrom - 1);
+    if (backfillTo >= Number(minMissingStats)) {
+      ranges.push({ fromTime: Number(minMissingStats), toTime: backfillTo });
+    }
+  }
+
+  if (newerFrom !== null) {
+    ranges.push({ fromTime: newerFrom, toTime: to });
+  }
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  return { fromTime: ranges[0].fromTime, toTime: ranges[ranges.length - 1].toTime, ranges };
+}
+
+async function planRepair(request: SyncRequest): Promise<SyncPlan | null> {
+  const gaps = await findCandleGaps(request.provider, request.market, request.symbol, request.interval);
+  if (gaps.length === 0) {
+    return null;
+  }
+
+  const ranges = gaps.map(({ fromTime, toTime }) => ({ fromTime, toTime }));
+  return { fromTime: ranges[0].fromTime, toTime: ranges[ranges.length - 1].toTime, ranges };
+}
+
+export async function getSyncJob(id: number): Promise<SyncJob | null> {
+  const row = await pool.query<SyncJobRow>(`SELECT ${JOB_COLUMNS} FROM sync_jobs WHERE id = $1`, [id]);
+  return row.rows[0] ? toSyncJob(row.rows[0]) : null;
+}
+
+export async function listSyncJobs(filter: {
+  provider?: ProviderId;
+  market?: MarketType;
+  symbol?: string;
+  interval?: Interval;
+  limit?: number;
+}): Promise<SyncJob[]> {
+  const where: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.provider) {
+    values.push(filter.provider);
+    where.push(`provider = $${values.length}`);
+  }
+
+  if (filter.market) {
+    values.push(filter.market);
+    where.push(`market = $${values.length}`);
+  }
+
+  if (filter.symbol) {
+    values.push(filter.symbol);
+    where.push(`symbol = $${values.length}`);
+  }
+
+  if (filter.interval) {
+    values.push(filter.interval);
+    where.push(`interval = $${values.length}`);
+  }
+
+  values.push(filter.limit ?? 20);
+
+  const rows = await pool.query<SyncJobRow>(
+    `
+      SELECT ${JOB_COLUMNS}
+      FROM sync_jobs
+      ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY created_at DESC
+      LIMIT $${values.length}
+    `,
+    values
+  );
+
+  return rows.rows.map(toSyncJob);
+}
+
+// The most recently finished job of every pair, whatever its outcome.
+export async function listLatestFinishedJobs(): Promise<SyncJob[]> {
+  const rows = await pool.query<SyncJobRow>(
+    `
+      SELECT DISTINCT ON (provider, market, symbol, interval) ${JOB_COLUMNS}
+      FROM sync_jobs
+      WHERE finished_at IS NOT NULL
+      ORDER BY provider, market, symbol, interval, finished_at DESC
+    `
+  );
+
+  return rows.rows.map(toSyncJob);
+}
+
+/**
+ * Queues a sync for the pair and starts it in the background. If a job for the
+ * same provider/market/symbol/interval is already queued or running, that job is
+ * returned instead.
+ *
+ * "forward" fetches the part of the requested window (two years by default,
+ * or since listing) that is not stored yet; "repair" only fetches the holes
+ * reported by the gap scanner. On pairs with funding and open interest, both
+ * modes also fetch the part of the window missing from that history, even when
+ * no candles are.
+ */
+export async function createSyncJob(request: SyncRequest): Promise<{ job: SyncJob; created: boolean } | null> {
+  const { provider, market, symbol, interval, mode = "forward" } = request;
+
+  const active = await pool.query<SyncJobRow>(
+    `
+      SELECT ${JOB_COLUMNS}
+      FROM sync_jobs
+      WHERE provider = $1 AND market = $2 AND symbol = $3 AND interval = $4 AND status IN ('queued', 'running')
+    `,
+    [provider, market, symbol, interval]
+  );
+
+  if (active.rows[0]) {
+    return { job: toSyncJob(active.rows[0]), created: false };
+  }
+
+  const { from, to } = await resolveWindow(request);
+  const candlePlan = mode === "repair" ? await planRepair(request) : await planForward(request, from, to);
+  const derivatives = hasDerivatives(provider, market) ? await planDerivatives(symbol, interval, from, to) : null;
+  if (!candlePlan && !derivatives) {
+    return null;
+  }
+
+  // The job window covers both plans; runJob plans the derivatives again inside it.
+  const spans: TimeRange[] = [
+    ...(candlePlan ? [candlePlan] : []),
+    ...(derivatives ? [...derivatives.funding, ...derivatives.openInterest] : []),
+  ];
+  const plan: SyncPlan = {
+    fromTime: Math.min(...spans.map((r) => r.fromTime)),
+    toTime: Math.max(...spans.map((r) => r.toTime)),
+    ranges: candlePlan?.ranges ?? [],
+  };
+
+  const row = await pool.query<SyncJobRow>(
+    `
+      INSERT INTO sync_jobs (provider, market, symbol, interval, mode, ranges, from_time, to_time, cursor)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $7)
+      ON CONFLICT (provider, market, symbol, interval) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING ${JOB_COLUMNS}
+    `,
+    [provider, market, symbol, interval, mode, JSON.stringify(plan.ranges), plan.fromTime, plan.toTime]
+  );
+
+  if (!row.rows[0]) {
+    // Lost a race with a concurrent request for the same pair.
+    return createSyncJob(request);
+  }
+
+  const job = toSyncJob(row.rows[0]);
+  void runJob(job);
+  return { job, created: true };
+}
+
+export async function cancelSyncJob(id: number): Promise<SyncJob | null> {
+  const job = await getSyncJob(id);
+  if (!job || isTerminalStatus(job.status)) {
+    return job;
+  }
+
+  runningJobs.get(id)?.abort();
+  return updateJob(id, { status: "cancelled", finished_at: new Date() });
+}
+
+/**
+ * Restarts jobs that were queued or running when the backend last stopped.
+ * They continue from their persisted cursor.
+ */
+export async function resumeSyncJobs(): Promise<number> {
+  const rows = await pool.query<SyncJobRow>(
+    `
+      SELECT ${JOB_COLUMNS}
+      FROM sync_jobs
+      WHERE status IN ('queued', 'running')
+      ORDER BY created_at ASC
+    `
+  );
+
+  for (const row of rows.rows) {
+    void runJob(toSyncJob(row));
+  }
+
+  return rows.rows.length;
+}
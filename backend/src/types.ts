@@ -1,30 +1,48 @@
-export type Interval = "5m" | "15m" | "1h" | "4h" | "1D" | "1W" | "1M";
+// API types are inferred from the zod contract shared with the frontend.
+export type {
+  Candle,
+  CandleAnomaly,
+  CandleAnomalyKind,
+  CandleField,
+  CandleGap,
+  CandleQualityReport,
+  ChartInterval,
+  DatabaseHealth,
+  DerivedInterval,
+  Drawing,
+  DrawingPoint,
+  DrawingType,
+  FundingRate,
+  Health,
+  ImportError,
+  Interval,
+  KnownGap,
+  LiveMessage,
+  MarketType,
+  OpenInterest,
+  PositionOutcome,
+  ProviderHealth,
+  ProviderId,
+  ReplaySession,
+  ReplaySessionSettings,
+  SymbolInfo,
+  SyncJob,
+  SyncJobMode,
+  SyncJobStatus,
+  SyncSchedule,
+  SyncScheduleResult,
+  TimeRange,
+} from "../../shared/api/index.js";
 
-export type Candle = {
-  symbol: string;
-  interval: Interval;
-  openTime: number;
-  closeTime: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-};
-
-export type DrawingType = "hline" | "rect" | "fibo" | "pricerange" | "longpos" | "shortpos";
-
-export type DrawingPoint = {
-  time: number;
-  price: number;
-};
-
-export type Drawing = {
-  id: number;
-  symbol: string;
-  type: DrawingType;
-  points: DrawingPoint[];
-  style: Record<string, unknown>;
-  createdAt: string;
-  updatedAt: string;
+/**
+ * One page of candles within [from, to]. `after` pages forward from an
+ * exclusive open-time cursor; otherwise the page holds the latest candles
+ * before the exclusive `before` cursor (or up to `to`).
+ */
+export type CandlePage = {
+  from: number;
+  to: number;
+  limit: number;
+  before?: number;
+  after?: number;
 };
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, mock, test } from "node:test";
+import { createBinanceClient } from "../src/providers/binanceClient.js";
+import { ProviderRequestError } from "../src/providers/restClient.js";
+import { HttpStandIn, StandInReply, startHttpStandIn } from "./httpStandIn.js";
+
+const MINUTE_MS = 60 * 1000;
+
+let standIn: HttpStandIn | null = null;
+
+async function serve(replies: StandInReply[]): Promise<HttpStandIn> {
+  standIn = await startHttpStandIn((_request, index) => replies[Math.min(index, replies.length - 1)]);
+  return standIn;
+}
+
+afterEach(async () => {
+  mock.timers.reset();
+  await standIn?.close();
+  standIn = null;
+});
+
+describe("Binance client", () => {
+  test("waits out Retry-After on 429 before retrying", async () => {
+    const server = await serve([
+      { status: 429, headers: { "Retry-After": "1" }, body: { code: -1003, msg: "Too many requests" } },
+      { body: [1, 2, 3] },
+    ]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000 });
+
+    assert.deepEqual(await client.get<number[]>("/api/v3/klines", { symbol: "BTCUSDT" }), [1, 2, 3]);
+    assert.equal(server.requests.length, 2);
+    assert.ok(server.requests[1].at - server.requests[0].at >= 1000);
+  });
+
+  test("fails a 429 whose Retry-After is longer than it may wait", async () => {
+    const server = await serve([{ status: 429, headers: { "Retry-After": "600" }, body: { code: -1003, msg: "Too many requests" } }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000 });
+
+    await assert.rejects(client.get("/api/v3/klines", {}), (error: unknown) => {
+      assert.ok(error instanceof ProviderRequestError);
+      assert.equal(error.kind, "rate_limited");
+      assert.equal(error.retryAfterMs, 600 * 1000);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  test("reports a 418 ban without sending again", async () => {
+    const server = await serve([{ status: 418, headers: { "Retry-After": "120" }, body: { code: -1003, msg: "Way too many requests" } }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000, maxRetryAfterMs: MINUTE_MS });
+
+    await assert.rejects(client.get("/api/v3/klines", {}), (error: unknown) => {
+      assert.ok(error instanceof ProviderRequestError);
+      assert.equal(error.kind, "ip_banned");
+      assert.equal(error.status, 418);
+      assert.equal(error.retryAfterMs, 120 * 1000);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  test("retries 5xx responses with growing backoff", async () => {
+    const server = await serve([{ status: 502 }, { status: 503 }, { body: { ok: true } }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000 });
+
+    assert.deepEqual(await client.get("/api/v3/ping", {}), { ok: true });
+    assert.equal(server.requests.length, 3);
+    // Backoff is half to all of 500ms, then of 1s.
+    const [first, second, third] = server.requests.map((r) => r.at);
+    assert.ok(second - first >= 250);
+    assert.ok(third - second >= 500);
+  });
+
+  test("gives up on 5xx after the last retry", async () => {
+    const server = await serve([{ status: 503, body: { code: -1001, msg: "Internal error" } }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000, maxRetries: 1 });
+
+    await assert.rejects(client.get("/api/v3/ping", {}), (error: unknown) => {
+      assert.ok(error instanceof ProviderRequestError);
+      assert.equal(error.kind, "unavailable");
+      assert.equal(error.status, 503);
+      return true;
+    });
+    assert.equal(server.requests.length, 2);
+  });
+
+  test("pauses until the next minute once the used weight would exceed the budget", async () => {
+    // Shortly before a minute boundary, so the pause is short in real time.
+    mock.timers.enable({ apis: ["Date"], now: 100 * MINUTE_MS - 200 });
+    const server = await serve([{ headers: { "X-MBX-USED-WEIGHT-1M": "8" }, body: [] }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 10 });
+
+    await client.get("/api/v3/klines", {}, { weight: 2 });
+    assert.equal(client.usedWeight(), 8);
+    // 8 + 2 is over 90% of 10.
+    await client.get("/api/v3/klines", {}, { weight: 2 });
+
+    assert.equal(server.requests.length, 2);
+    assert.ok(server.requests[1].at - server.requests[0].at >= 200);
+  });
+
+  test("sends right away while the weight fits the budget", async () => {
+    const server = await serve([{ headers: { "X-MBX-USED-WEIGHT-1M": "2" }, body: [] }]);
+    const client = createBinanceClient({ baseUrl: server.url, weightLimit: 6000 });
+
+    await client.get("/api/v3/klines", {}, { weight: 2 });
+    await client.get("/api/v3/klines", {}, { weight: 2 });
+
+    assert.equal(server.requests.length, 2);
+    assert.ok(server.requests[1].at - server.requests[0].at < 200);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { Writable } from "node:stream";
+import { afterEach, before, describe, mock, test } from "node:test";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+let exportCandles: typeof import("../src/exportCandles.js").exportCandles;
+let pool: typeof import("../src/lib/db.js").pool;
+
+function row(openTime: number, intervalMs: number) {
+  return {
+    provider: "binance",
+    market: "spot",
+    symbol: "BTCUSDT",
+    interval: "1h",
+    open_time: String(openTime),
+    close_time: String(openTime + intervalMs - 1),
+    open: "1.10",
+    high: "2",
+    low: "0.5",
+    close: "1.5",
+    volume: "10",
+    quote_volume: null,
+    trades: null,
+    taker_buy_base_volume: null,
+    taker_buy_quote_volume: null,
+  };
+}
+
+// Collects everything written, optionally never draining after the first chunk.
+function sink(options: { stall?: boolean } = {}): Writable & { text: () => string } {
+  const chunks: string[] = [];
+  const out = new Writable({
+    highWaterMark: 1,
+    write(chunk, _encoding, callback) {
+      chunks.push(String(chunk));
+      if (!options.stall) {
+        callback();
+      }
+    },
+  });
+  return Object.assign(out, { text: () => chunks.join("") });
+}
+
+const params = { provider: "binance" as const, market: "spot" as const, symbol: "BTCUSDT", from: START, to: START + 100 * HOUR_MS };
+
+before(async () => {
+  // Read when the modules load; the database is never reached because pool.query is faked below.
+  process.env.DATABASE_URL ??= "postgres://stand-in@127.0.0.1:1/none";
+  ({ exportCandles } = await import("../src/exportCandles.js"));
+  ({ pool } = await import("../src/lib/db.js"));
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("candle export", () => {
+  test("writes stored rows as CSV exactly as stored", async () => {
+    mock.method(pool, "query", async () => ({ rows: [row(START, HOUR_MS)], rowCount: 1 }));
+    const out = sink();
+
+    assert.equal(await exportCandles(out, "csv", { ...params, interval: "1h" }), 1);
+
+    const [, line] = out.text().split("\n");
+    assert.equal(line, `binance,spot,BTCUSDT,1h,${START},${START + HOUR_MS - 1},1.10,2,0.5,1.5,10,,,,`);
+  });
+
+  test("builds derived intervals from base candles", async () => {
+    const queries: unknown[][] = [];
+    mock.method(pool, "query", async (sql: string, values: unknown[]) => {
+      queries.push([sql, values]);
+      const { provider: _p, market: _m, symbol: _s, interval: _i, ...r } = row(START, 2 * HOUR_MS);
+      return { rows: [{ ...r, parts: "24" }], rowCount: 1 };
+    });
+    const out = sink();
+
+    assert.equal(await exportCandles(out, "json", { ...params, interval: "2h" }), 1);
+
+    const [sql, values] = queries[0] as [string, unknown[]];
+    assert.match(sql, /GROUP BY bucket/);
+    assert.equal(values[1], "5m");
+    const [candle] = JSON.parse(out.text());
+    assert.equal(candle.interval, "2h");
+    assert.equal(candle.closeTime, START + 2 * HOUR_MS - 1);
+  });
+
+  test("stops reading once the client disconnects", async () => {
+    let queryCount = 0;
+    // Full pages, so the export would keep asking for more.
+    mock.method(pool, "query", async () => {
+      queryCount += 1;
+      const rows = Array.from({ length: 10000 }, (_, i) => row(START + (queryCount * 10000 + i) * HOUR_MS, HOUR_MS));
+      return { rows, rowCount: rows.length };
+    });
+    const out = sink({ stall: true });
+
+    const pending = exportCandles(out, "csv", { ...params, interval: "1h", to: Number.MAX_SAFE_INTEGER });
+    setTimeout(() => out.destroy(), 50);
+
+    assert.equal(await pending, 0);
+    assert.ok(queryCount <= 1);
+  });
+});
@@ -0,0 +1,59 @@
+import { once } from "node:events";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+export type StandInRequest = {
+  path: string;
+  query: URLSearchParams;
+  // Milliseconds since the stand-in started, by the real clock.
+  at: number;
+};
+
+export type StandInReply = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+export type HttpStandIn = {
+  url: string;
+  requests: StandInRequest[];
+  close(): Promise<void>;
+};
+
+/**
+ * A local HTTP server standing in for an exchange API. `reply` gets every
+ * request in turn (with its index) and answers with JSON, possibly after a delay.
+ */
+export async function startHttpStandIn(
+  reply: (request: StandInRequest, index: number) => StandInReply | Promise<StandInReply>
+): Promise<HttpStandIn> {
+  const started = performance.now();
+  const requests: StandInRequest[] = [];
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const request = { path: url.pathname, query: url.searchParams, at: performance.now() - started };
+    requests.push(request);
+    const { status = 200, headers = {}, body = {} } = await reply(request, requests.length - 1);
+    if (res.destroyed) {
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  });
+
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: async () => {
+      server.closeAllConnections();
+      server.close();
+      await once(server, "close");
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { ParsedImport, parseBinanceKlineCsv, parseGenericCsv } from "../src/importCandles.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function emptyImport(): ParsedImport {
+  return { provider: "binance", market: "spot", candles: [], rows: 0, errors: [] };
+}
+
+function genericImport(rows: string[]): ParsedImport {
+  const result = emptyImport();
+  parseGenericCsv(["timestamp,open,high,low,close,volume", ...rows].join("\n"), "upload.csv", "BTCUSDT", "1h", {}, result);
+  return result;
+}
+
+// Times must not depend on where the server runs, so parse them away from UTC.
+const serverZone = process.env.TZ;
+before(() => {
+  process.env.TZ = "America/New_York";
+});
+after(() => {
+  if (serverZone === undefined) {
+    delete process.env.TZ;
+  } else {
+    process.env.TZ = serverZone;
+  }
+});
+
+describe("CSV import", () => {
+  test("reads ISO times without a zone as UTC", () => {
+    const result = genericImport(["2024-01-01 00:00:00,1,2,0.5,1.5,10", "2024-01-01T01:00,1,2,0.5,1.5,10", "2024-01-02,1,2,0.5,1.5,10"]);
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(
+      result.candles.map((c) => c.openTime),
+      [START, START + HOUR_MS, START + 24 * HOUR_MS]
+    );
+    assert.equal(result.candles[0].closeTime, START + HOUR_MS - 1);
+  });
+
+  test("applies an explicit zone", () => {
+    const result = genericImport(["2024-01-01T01:00:00+01:00,1,2,0.5,1.5,10", "2024-01-01T00:00:00.000Z,1,2,0.5,1.5,10", "2024-01-01 02:00+0200,1,2,0.5,1.5,10"]);
+
+    assert.deepEqual(
+      result.candles.map((c) => c.openTime),
+      [START, START, START]
+    );
+  });
+
+  test("rejects times that are not epoch numbers or ISO dates", () => {
+    const result = genericImport(["01/01/2024 00:00,1,2,0.5,1.5,10"]);
+
+    assert.equal(result.candles.length, 0);
+    assert.equal(result.errors.length, 1);
+    assert.equal(result.errors[0].line, 2);
+    assert.match(result.errors[0].message, /openTime/);
+  });
+
+  test("reads Binance archive times in milliseconds and microseconds", () => {
+    // Archives from 2025 on count microseconds in both time columns.
+    const row = (openTime: number, scale: number) => `${openTime * scale},1,2,0.5,1.5,10,${(openTime + HOUR_MS) * scale - 1},15,3,4,6,0`;
+    const result = emptyImport();
+    parseBinanceKlineCsv([row(START, 1), row(START + HOUR_MS, 1000)].join("\n"), "BTCUSDT-1h.csv", "BTCUSDT", "1h", result);
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(
+      result.candles.map((c) => [c.openTime, c.closeTime]),
+      [
+        [START, START + HOUR_MS - 1],
+        [START + HOUR_MS, START + 2 * HOUR_MS - 1],
+      ]
+    );
+  });
+});
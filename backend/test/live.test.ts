@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { after, afterEach, before, beforeEach, describe, mock, test } from "node:test";
+import type { LiveQuery } from "../src/live.js";
+import type { LiveMessage } from "../src/types.js";
+import { startWsStandIn, WsStandIn } from "./wsStandIn.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const OPEN_TIME = Date.UTC(2024, 0, 1);
+
+let stream: WsStandIn;
+let subscribeLive: (query: LiveQuery, listener: (message: LiveMessage) => void) => () => void;
+let pool: typeof import("../src/lib/db.js").pool;
+
+// SQL sent through pool.query, and parameters of candle inserts sent through pool.connect.
+let queries: string[] = [];
+let insertedOpenTimes: number[] = [];
+
+const jobRow = {
+  id: "7",
+  provider: "binance",
+  market: "spot",
+  symbol: "BTCUSDT",
+  interval: "1h",
+  status: "running",
+  mode: "forward",
+  ranges: [],
+  from_time: String(OPEN_TIME),
+  to_time: String(OPEN_TIME + HOUR_MS),
+  cursor: String(OPEN_TIME),
+  pages_done: 0,
+  candles_inserted: 0,
+  anomalies: null,
+  error: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  finished_at: null,
+};
+
+function kline(openTime: number, closed: boolean) {
+  return JSON.stringify({
+    e: "kline",
+    k: { t: openTime, T: openTime + HOUR_MS - 1, o: "1", h: "2", l: "0.5", c: "1.5", v: "10", q: "15", n: 3, V: "4", Q: "6", x: closed },
+  });
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = performance.now() + timeoutMs;
+  while (!check()) {
+    if (performance.now() > deadline) {
+      throw new Error("Timed out waiting for the condition");
+    }
+    await delay(10);
+  }
+}
+
+before(async () => {
+  stream = await startWsStandIn();
+  // Read when the modules load; the database is never reached because pool calls are faked below.
+  process.env.BINANCE_WS_URL = stream.url;
+  process.env.DATABASE_URL ??= "postgres://stand-in@127.0.0.1:1/none";
+  ({ subscribeLive } = await import("../src/live.js"));
+  ({ pool } = await import("../src/lib/db.js"));
+});
+
+beforeEach(() => {
+  queries = [];
+  insertedOpenTimes = [];
+  // An active job answers the catch-up, so no sync actually runs.
+  mock.method(pool, "query", async (sql: string) => {
+    queries.push(sql);
+    return sql.includes("FROM sync_jobs") ? { rows: [jobRow], rowCount: 1 } : { rows: [], rowCount: 0 };
+  });
+  mock.method(pool, "connect", async () => ({
+    query: async (sql: string, params?: unknown[][]) => {
+      if (sql.includes("INSERT INTO candles") && params) {
+        insertedOpenTimes.push(...(params[4] as number[]));
+      }
+      return { rows: [{ inserted: true }], rowCount: 1 };
+    },
+    release: () => {},
+  }));
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(async () => {
+  await stream.close();
+});
+
+const query: LiveQuery = { provider: "binance", market: "spot", symbol: "BTCUSDT", interval: "1h" };
+
+describe("live feed", () => {
+  test("relays forming candles and stores closed ones", async () => {
+    const messages: LiveMessage[] = [];
+    const unsubscribe = subscribeLive(query, (message) => messages.push(message));
+    const socket = await stream.nextConnection();
+
+    socket.send(kline(OPEN_TIME, false));
+    socket.send(kline(OPEN_TIME, true));
+    await waitFor(() => insertedOpenTimes.length === 1);
+    unsubscribe();
+
+    const candles = messages.flatMap((m) => (m.type === "candle" ? [m] : []));
+    assert.deepEqual(
+      candles.map((m) => [m.candle.openTime, m.closed]),
+      [
+        [OPEN_TIME, false],
+        [OPEN_TIME, true],
+      ]
+    );
+    assert.deepEqual(insertedOpenTimes, [OPEN_TIME]);
+    assert.equal(stream.paths.at(-1), "/ws/btcusdt@kline_1h");
+  });
+
+  test("reconnects after the exchange drops the connection", async () => {
+    const messages: LiveMessage[] = [];
+    const unsubscribe = subscribeLive(query, (message) => messages.push(message));
+    const first = await stream.nextConnection();
+
+    first.terminate();
+    // The first reconnect waits one second.
+    const second = await stream.nextConnection();
+    second.send(kline(OPEN_TIME + HOUR_MS, true));
+    await waitFor(() => messages.some((m) => m.type === "candle"));
+    await waitFor(() => insertedOpenTimes.length === 1);
+    unsubscribe();
+
+    assert.deepEqual(insertedOpenTimes, [OPEN_TIME + HOUR_MS]);
+  });
+
+  test("catches up once per stream and tells later clients about it", async () => {
+    const firstMessages: LiveMessage[] = [];
+    const secondMessages: LiveMessage[] = [];
+    const unsubscribeFirst = subscribeLive(query, (message) => firstMessages.push(message));
+    await stream.nextConnection();
+    await waitFor(() => firstMessages.some((m) => m.type === "sync"));
+
+    const unsubscribeSecond = subscribeLive(query, (message) => secondMessages.push(message));
+    unsubscribeSecond();
+    unsubscribeFirst();
+
+    assert.equal(queries.filter((sql) => sql.includes("FROM sync_jobs")).length, 1);
+    assert.deepEqual(
+      secondMessages.map((m) => (m.type === "sync" ? m.job.id : m.type)),
+      [7]
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { ProviderRequestError } from "../src/providers/restClient.js";
+import type { MarketDataProvider } from "../src/providers/types.js";
+import { HttpStandIn, StandInReply, StandInRequest, startHttpStandIn } from "./httpStandIn.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Replies of the current test, in order; the last one repeats.
+let replies: ((request: StandInRequest) => StandInReply | Promise<StandInReply>)[] = [];
+let standIn: HttpStandIn;
+let bybit: MarketDataProvider;
+let okx: MarketDataProvider;
+let coinbase: MarketDataProvider;
+
+before(async () => {
+  standIn = await startHttpStandIn((request, index) => replies[Math.min(index, replies.length - 1)](request));
+  // Adapters read their base URL when loaded.
+  process.env.BYBIT_BASE_URL = standIn.url;
+  process.env.OKX_BASE_URL = standIn.url;
+  process.env.COINBASE_BASE_URL = standIn.url;
+  ({ bybitProvider: bybit } = await import("../src/providers/bybit.js"));
+  ({ okxProvider: okx } = await import("../src/providers/okx.js"));
+  ({ coinbaseProvider: coinbase } = await import("../src/providers/coinbase.js"));
+});
+
+beforeEach(() => {
+  standIn.requests.length = 0;
+});
+
+after(async () => {
+  await standIn.close();
+});
+
+const hourQuery = { market: "spot" as const, symbol: "BTCUSDT", interval: "1h" as const, startTime: START, endTime: START + 3 * HOUR_MS };
+
+describe("Bybit adapter", () => {
+  test("maps newest-first kline rows to candles, oldest first", async () => {
+    replies = [
+      () => ({
+        body: {
+          retCode: 0,
+          retMsg: "OK",
+          result: {
+            list: [
+              [String(START + HOUR_MS), "2", "3", "1", "2.5", "10", "25"],
+              [String(START), "1", "2", "0.5", "2", "5", "10"],
+            ],
+          },
+        },
+      }),
+    ];
+
+    const candles = await bybit.fetchKlines(hourQuery);
+
+    assert.deepEqual(
+      candles.map((c) => [c.openTime, c.closeTime, c.open, c.high, c.low, c.close, c.volume, c.quoteVolume]),
+      [
+        [START, START + HOUR_MS - 1, 1, 2, 0.5, 2, 5, 10],
+        [START + HOUR_MS, START + 2 * HOUR_MS - 1, 2, 3, 1, 2.5, 10, 25],
+      ]
+    );
+    const [request] = standIn.requests;
+    assert.equal(request.path, "/v5/market/kline");
+    assert.equal(request.query.get("category"), "spot");
+    assert.equal(request.query.get("interval"), "60");
+    assert.equal(request.query.get("start"), String(START));
+  });
+
+  test("turns a non-zero retCode into a rejected request", async () => {
+    replies = [() => ({ body: { retCode: 10001, retMsg: "Not supported symbols", result: {} } })];
+
+    await assert.rejects(bybit.fetchKlines(hourQuery), (error: unknown) => {
+      assert.ok(error instanceof ProviderRequestError);
+      assert.equal(error.kind, "rejected");
+      return true;
+    });
+  });
+
+  test("aborts an in-flight request when the signal fires", async () => {
+    replies = [() => delay(2000).then(() => ({ body: { retCode: 0, retMsg: "OK", result: { list: [] } } }))];
+    const controller = new AbortController();
+    const started = performance.now();
+
+    const pending = bybit.fetchKlines({ ...hourQuery, signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(pending);
+    assert.ok(performance.now() - started < 1000);
+  });
+});
+
+describe("OKX adapter", () => {
+  test("retries after a 429 and reads history candles", async () => {
+    replies = [
+      () => ({ status: 429, headers: { "Retry-After": "0" }, body: { code: "50011", msg: "Too Many Requests", data: [] } }),
+      () => ({
+        body: {
+          code: "0",
+          msg: "",
+          data: [[String(START), "1", "2", "0.5", "1.5", "7", "10.5", "11", "1"]],
+        },
+      }),
+    ];
+
+    const candles = await okx.fetchKlines(hourQuery);
+
+    assert.equal(standIn.requests.length, 2);
+    assert.equal(standIn.requests[1].path, "/api/v5/market/history-candles");
+    assert.equal(standIn.requests[1].query.get("instId"), "BTC-USDT");
+    assert.equal(standIn.requests[1].query.get("bar"), "1H");
+    assert.deepEqual(
+      candles.map((c) => [c.openTime, c.open, c.close, c.volume, c.quoteVolume]),
+      [[START, 1, 1.5, 7, 11]]
+    );
+  });
+
+  test("skips empty windows until candles show up", async () => {
+    const limitedQuery = { ...hourQuery, endTime: START + 300 * HOUR_MS };
+    replies = [
+      () => ({ body: { code: "0", msg: "", data: [] } }),
+      (request) => ({
+        body: { code: "0", msg: "", data: [[String(Number(request.query.get("before")) + 1), "1", "1", "1", "1", "1", "1", "1", "1"]] },
+      }),
+    ];
+
+    const candles = await okx.fetchKlines(limitedQuery);
+
+    assert.equal(standIn.requests.length, 2);
+    assert.equal(candles[0].openTime, START + 100 * HOUR_MS);
+  });
+});
+
+describe("Coinbase adapter", () => {
+  test("maps candle arrays and sends the window as ISO times", async () => {
+    replies = [() => ({ body: [[START / 1000, 0.5, 2, 1, 1.5, 3]] })];
+
+    const candles = await coinbase.fetchKlines(hourQuery);
+
+    const [request] = standIn.requests;
+    assert.equal(request.path, "/products/BTC-USDT/candles");
+    assert.equal(request.query.get("granularity"), "3600");
+    assert.equal(request.query.get("start"), new Date(START).toISOString());
+    assert.deepEqual(
+      candles.map((c) => [c.openTime, c.open, c.high, c.low, c.close, c.volume]),
+      [[START, 1, 2, 0.5, 1.5, 3]]
+    );
+  });
+
+  test("retries a 5xx before giving the candles back", async () => {
+    replies = [() => ({ status: 503, body: { message: "Service unavailable" } }), () => ({ body: [] })];
+
+    assert.deepEqual(await coinbase.fetchKlines(hourQuery), []);
+    assert.ok(standIn.requests.length >= 2);
+  });
+
+  test("returns null for an unknown product", async () => {
+    replies = [() => ({ status: 404, body: { message: "NotFound" } })];
+
+    assert.equal(await coinbase.fetchSymbolInfo("FOOUSDT"), null);
+  });
+});
@@ -0,0 +1,49 @@
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import WebSocket, { WebSocketServer } from "ws";
+
+export type WsStandIn = {
+  url: string;
+  // Paths clients connected to, in order.
+  paths: string[];
+  // Resolves with the next connection, or the earliest one not handed out yet.
+  nextConnection(): Promise<WebSocket>;
+  close(): Promise<void>;
+};
+
+// A local WebSocket server standing in for an exchange stream.
+export async function startWsStandIn(): Promise<WsStandIn> {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+
+  const paths: string[] = [];
+  const waiting: WebSocket[] = [];
+  const waiters: ((socket: WebSocket) => void)[] = [];
+
+  server.on("connection", (socket, req) => {
+    paths.push(req.url ?? "");
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter(socket);
+    } else {
+      waiting.push(socket);
+    }
+  });
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    paths,
+    nextConnection: () => {
+      const socket = waiting.shift();
+      return socket ? Promise.resolve(socket) : new Promise((resolve) => waiters.push(resolve));
+    },
+    close: async () => {
+      for (const client of server.clients) {
+        client.terminate();
+      }
+      server.close();
+      await once(server, "close");
+    },
+  };
+}
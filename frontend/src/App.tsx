@@ -1,48 +1,97 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import {
   CandlestickData,
   ColorType,
   createChart,
+  HistogramData,
   IChartApi,
+  IPriceLine,
   ISeriesApi,
   LineData,
+  LineStyle,
   Logical,
+  SeriesMarker,
   Time,
   UTCTimestamp,
 } from "lightweight-charts";
+import { intervalsBetween, intervalStart, nextIntervalStart, nominalIntervalMs, shiftInterval } from "../../shared/intervals";
+import {
+  Candle,
+  CandleAnomaly,
+  CandleAnomalyKind,
+  CandleGap,
+  CandleQualityReport,
+  CandleSource,
+  ChartInterval,
+  DEFAULT_PROVIDER,
+  Drawing,
+  DrawingPoint,
+  endpoints,
+  FundingRate,
+  ImportReport,
+  Interval,
+  LiveMessage,
+  liveMessageSchema,
+  MarketType,
+  MAX_CANDLES_PAGE,
+  OpenInterest,
+  PositionOutcome,
+  ProviderId,
+  ProviderInfo,
+  ReplaySession,
+  SymbolInfo,
+  SyncJob,
+  SyncJobMode,
+  syncJobSchema,
+  SyncSchedule,
+  SyncScheduleResult,
+} from "../../shared/api";
+import { api, API_URL, ApiRequestError, apiUrl, parseFrame } from "./apiClient";
+import { isSettled, POSITION_RESULT_LABELS, resolvePosition, sameOutcome } from "./positionOutcome";
+import { candleEnd, countOpenedBefore, formingCandle, nextReplayTime } from "./replayClock";
+import {
+  advanceBroker,
+  BrokerSettings,
+  BrokerState,
+  cancelOrder,
+  createBroker,
+  DEFAULT_BROKER_SETTINGS,
+  equity,
+  flattenPosition,
+  OrderSide,
+  placeOcoOrder,
+  placeOrder,
+  unrealizedPnl,
+} from "./paperBroker";
 
-type Interval = "5m" | "15m" | "1h" | "4h" | "1D" | "1W" | "1M";
 type Tool = "none" | "hline" | "rect" | "fibo" | "pricerange" | "longpos" | "shortpos" | "replay-start";
 
-type Candle = {
-  symbol: string;
-  interval: Interval;
-  openTime: number;
-  closeTime: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-};
+type LiveStatus = "connecting" | "live" | "reconnecting";
 
-type DrawingPoint = {
-  time: number;
-  price: number;
+// EMA values the forming candle continues from, keyed by period.
+type LiveEmaBase = {
+  lastOpenTime: number;
+  beforeLast: Map<number, number>;
+  atLast: Map<number, number>;
 };
 
-type Drawing = {
+type PositionHandle = "tp" | "sl" | "time";
+
+type ImportFormat = "binance" | "generic";
+type ExportFormat = "csv" | "json" | "parquet";
+// Resting order kinds the trading panel can place; market orders have their own buttons.
+type TicketType = "limit" | "stop" | "oco";
+
+// Totals over every file of one import.
+type ImportResult = Pick<ImportReport, "files" | "rows" | "valid" | "rejected" | "inserted" | "errors">;
+
+type Toast = {
   id: number;
-  symbol: string;
-  type: "hline" | "rect" | "fibo" | "pricerange" | "longpos" | "shortpos";
-  points: DrawingPoint[];
-  style: Record<string, unknown>;
-  created_at: string;
-  updated_at: string;
+  message: string;
+  requestId: string | null;
 };
 
-type PositionHandle = "tp" | "sl" | "time";
+type HistoryPreset = "1Y" | "2Y" | "5Y" | "all" | "custom";
 
 type LineStyleOption = "solid" | "dashed";
 type MondayRange = {
@@ -52,27 +101,141 @@ type MondayRange = {
   mondayLow: number;
 };
 
-const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3001";
-const SYMBOL = "BTCUSDT";
-const INTERVALS: Interval[] = ["5m", "15m", "1h", "4h", "1D", "1W", "1M"];
+const DEFAULT_SYMBOL = "BTCUSDT";
+const DEFAULT_SCHEDULE_CRON = "*/15 * * * *";
+const SCHEDULES_POLL_MS = 15000;
+const LIVE_RECONNECT_MS = 3000;
+const TOAST_MS = 8000;
+// A running replay saves its session at most this often; pausing saves right away.
+const SESSION_SAVE_MS = 5000;
+// Candles per /api/candles request: the initial window and every page of older history.
+const CANDLE_PAGE_SIZE = 1500;
+// Older history is fetched once fewer bars than this are left of the visible range.
+const LOAD_OLDER_MARGIN_BARS = 100;
+const MARKETS: { value: MarketType; label: string }[] = [
+  { value: "spot", label: "Spot" },
+  { value: "perp", label: "USDⓈ-M Perp" },
+];
+// Share of the chart height taken by each volume / funding / open interest sub-pane.
+const SUB_PANE_HEIGHT = 0.15;
+const INTERVALS: ChartInterval[] = ["5m", "15m", "1h", "2h", "3h", "4h", "12h", "1D", "3D", "1W", "1M"];
+// Not offered by Binance; always built server-side from BASE_INTERVAL candles.
+const DERIVED_INTERVALS: ChartInterval[] = ["2h", "3h", "12h", "3D"];
+const BASE_INTERVAL: Interval = "5m";
 const SPEEDS = [1, 2, 5, 10];
+// Intrabar replay grows higher-interval candles one BASE_INTERVAL sub-bar per step.
+const SUB_BAR_MS = nominalIntervalMs(BASE_INTERVAL);
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const HISTORY_PRESETS: { value: HistoryPreset; label: string }[] = [
+  { value: "1Y", label: "1 year" },
+  { value: "2Y", label: "2 years" },
+  { value: "5Y", label: "5 years" },
+  { value: "all", label: "Since listing" },
+  { value: "custom", label: "Custom" },
+];
 const FIB_LEVELS = [0, 0.25, 0.5, 0.75, 1];
-const INTERVAL_MS: Record<Interval, number> = {
-  "5m": 5 * 60 * 1000,
-  "15m": 15 * 60 * 1000,
-  "1h": 60 * 60 * 1000,
-  "4h": 4 * 60 * 60 * 1000,
-  "1D": 24 * 60 * 60 * 1000,
-  "1W": 7 * 24 * 60 * 60 * 1000,
-  "1M": 30 * 24 * 60 * 60 * 1000,
+const ANOMALY_LABELS: Record<CandleAnomalyKind, string> = {
+  high_below_low: "H<L",
+  open_out_of_range: "O?",
+  close_out_of_range: "C?",
+  zero_volume_run: "0 vol",
+  close_time_mismatch: "close time",
+  misaligned_open_time: "misaligned",
+  duplicate_period: "duplicate",
+};
+const SCHEDULE_RESULT_LABELS: Record<SyncScheduleResult, string> = {
+  started: "Sync started",
+  already_running: "Already syncing",
+  up_to_date: "Up to date",
+  failed: "Failed",
 };
 
-const api = axios.create({ baseURL: API_URL });
+// Exchanges store every chart interval except the ones built from BASE_INTERVAL.
+function isStoredInterval(interval: ChartInterval): interval is Interval {
+  return !DERIVED_INTERVALS.includes(interval);
+}
 
 function toUtcTimestamp(ms: number): UTCTimestamp {
   return Math.floor(ms / 1000) as UTCTimestamp;
 }
 
+function tickSizeToPrecision(tickSize: number): number {
+  if (!Number.isFinite(tickSize) || tickSize <= 0 || tickSize >= 1) {
+    return 0;
+  }
+  return Math.min(10, Math.max(0, Math.round(-Math.log10(tickSize))));
+}
+
+function loadBrokerSettings(): BrokerSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem("paperSettings") ?? "null") as Partial<BrokerSettings> | null;
+    return { ...DEFAULT_BROKER_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_BROKER_SETTINGS;
+  }
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Partial closes leave float noise such as 0.30000000000000004.
+function formatQuantity(value: number): string {
+  return String(Number(value.toFixed(8)));
+}
+
+function isSyncJobActive(job: SyncJob | null): boolean {
+  return job !== null && (job.status === "queued" || job.status === "running");
+}
+
+function syncJobProgress(job: SyncJob): number {
+  if (job.status === "completed") {
+    return 1;
+  }
+  const span = job.toTime - job.fromTime;
+  if (span <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, (job.cursor - job.fromTime) / span));
+}
+
+// API failures arrive as ApiRequestError, whose message is the backend's own.
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function resolveHistoryWindow(preset: HistoryPreset, customFrom: string, customTo: string): { from: number; to: number } {
+  const now = Date.now();
+
+  if (preset === "all") {
+    return { from: 0, to: now };
+  }
+
+  if (preset === "custom") {
+    const from = Date.parse(`${customFrom}T00:00:00Z`);
+    const to = Date.parse(`${customTo}T23:59:59Z`);
+    return {
+      from: Number.isFinite(from) ? from : 0,
+      to: Number.isFinite(to) ? Math.min(to, now) : now,
+    };
+  }
+
+  const years = preset === "1Y" ? 1 : preset === "5Y" ? 5 : 2;
+  return { from: now - years * YEAR_MS, to: now };
+}
+
+// "openTime=timestamp, volume=vol" -> { openTime: "timestamp", volume: "vol" }
+function parseColumnMapping(raw: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const part of raw.split(",")) {
+    const [field, column] = part.split("=").map((v) => v.trim());
+    if (field && column) {
+      mapping[field] = column;
+    }
+  }
+  return mapping;
+}
+
 function parsePeriods(raw: string): number[] {
   return raw
     .split(",")
@@ -107,15 +270,6 @@ function hexToRgba(hex: string, alpha: number): string {
   return `rgba(${r}, ${g}, ${b}, ${safeAlpha})`;
 }
 
-function startOfUtcMonday(timeMs: number): number {
-  const d = new Date(timeMs);
-  const day = d.getUTCDay(); // 0 Sun ... 6 Sat
-  const diffToMonday = (day + 6) % 7;
-  d.setUTCHours(0, 0, 0, 0);
-  d.setUTCDate(d.getUTCDate() - diffToMonday);
-  return d.getTime();
-}
-
 function rgbaToHexOpacity(input: string): { hex: string; opacity: number } {
   const m = input
     .replace(/\s+/g, "")
@@ -157,6 +311,53 @@ function computeEma(candles: Candle[], period: number): LineData<UTCTimestamp>[]
   return result;
 }
 
+/**
+ * Places series points on the candle grid: each candle that contains a point
+ * gets the latest value inside it. Points after the last candle are dropped, so
+ * the replay cutoff applies to the series as well.
+ */
+function alignToCandles(points: { time: number; value: number }[], candles: Candle[]): LineData<UTCTimestamp>[] {
+  const result: LineData<UTCTimestamp>[] = [];
+  let p = 0;
+
+  for (const candle of candles) {
+    let value: number | null = null;
+    while (p < points.length && points[p].time <= candle.closeTime) {
+      if (points[p].time >= candle.openTime) {
+        value = points[p].value;
+      }
+      p += 1;
+    }
+    if (value !== null) {
+      result.push({ time: toUtcTimestamp(candle.openTime), value });
+    }
+  }
+
+  return result;
+}
+
+type SubPane = "volume" | "takerDelta" | "funding" | "openInterest";
+
+const UP_BAR_COLOR = "rgba(22, 199, 132, 0.7)";
+const DOWN_BAR_COLOR = "rgba(234, 57, 67, 0.7)";
+
+function volumeBar(candle: Candle): HistogramData<UTCTimestamp> {
+  return {
+    time: toUtcTimestamp(candle.openTime),
+    value: candle.volume,
+    color: candle.close >= candle.open ? UP_BAR_COLOR : DOWN_BAR_COLOR,
+  };
+}
+
+// Taker buy volume minus taker sell volume; null for candles without taker statistics.
+function takerDeltaBar(candle: Candle): HistogramData<UTCTimestamp> | null {
+  if (candle.takerBuyBaseVolume === null) {
+    return null;
+  }
+  const delta = 2 * candle.takerBuyBaseVolume - candle.volume;
+  return { time: toUtcTimestamp(candle.openTime), value: delta, color: delta >= 0 ? UP_BAR_COLOR : DOWN_BAR_COLOR };
+}
+
 function timeToMs(time: Time | null): number | null {
   if (time === null) {
     return null;
@@ -167,6 +368,11 @@ function timeToMs(time: Time | null): number | null {
   return null;
 }
 
+// Whether the candle replay starts on is loaded: one has to open before the start moment.
+function coversReplayStart(candles: Candle[], startTime: number): boolean {
+  return candles.length > 0 && candles[0].openTime < startTime;
+}
+
 function nearestCandleIndex(candles: Candle[], targetTimeMs: number): number {
   if (candles.length === 0) {
     return -1;
@@ -201,7 +407,19 @@ export default function App() {
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
   const emaSeriesRef = useRef<Map<number, ISeriesApi<"Line">>>(new Map());
+  const liveEmaBaseRef = useRef<LiveEmaBase | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const takerDeltaSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const fundingSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const openInterestSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const tradeLinesRef = useRef<IPriceLine[]>([]);
   const drawOverlayRef = useRef<() => void>(() => {});
+  const loadOlderCandlesRef = useRef<() => Promise<void>>(async () => {});
+  const candlesRef = useRef<Candle[]>([]);
+  // Bumped on every full reload so pages requested for a previous pair or window are dropped.
+  const candlesGenerationRef = useRef(0);
+  const hasOlderCandlesRef = useRef(false);
+  const loadingOlderRef = useRef(false);
   const hitTestDrawingRef = useRef<(x: number, y: number) => Drawing | null>(() => null);
   const hitTestPositionHandleRef = useRef<(x: number, y: number) => PositionHandle | null>(() => null);
 
@@ -213,21 +431,75 @@ export default function App() {
   const selectedDrawingRef = useRef<Drawing | null>(null);
   const guideRef = useRef<{ x: number; y: number; visible: boolean }>({ x: 0, y: 0, visible: false });
 
-  const [interval, setInterval] = useState<Interval>("15m");
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [provider, setProvider] = useState<ProviderId>(
+    () => (localStorage.getItem("provider") as ProviderId | null) ?? DEFAULT_PROVIDER
+  );
+  const [market, setMarket] = useState<MarketType>(() => (localStorage.getItem("market") as MarketType | null) ?? "spot");
+  const [symbols, setSymbols] = useState<SymbolInfo[]>([]);
+  const [symbol, setSymbol] = useState<string>(() => localStorage.getItem("symbol") ?? DEFAULT_SYMBOL);
+  const [newSymbolInput, setNewSymbolInput] = useState("");
+  const [addingSymbol, setAddingSymbol] = useState(false);
+  const [interval, setInterval] = useState<ChartInterval>("15m");
+  const [candleSource, setCandleSource] = useState<CandleSource>("stored");
+  const [historyPreset, setHistoryPreset] = useState<HistoryPreset>(
+    () => (localStorage.getItem("historyPreset") as HistoryPreset | null) ?? "2Y"
+  );
+  const [customFrom, setCustomFrom] = useState("2020-01-01");
+  const [customTo, setCustomTo] = useState(() => new Date().toISOString().slice(0, 10));
   const [candles, setCandles] = useState<Candle[]>([]);
+  // Bumped after a sync or import stored new candles; scrolling back and live candles leave it alone.
+  const [storedVersion, setStoredVersion] = useState(0);
+  const [fundingRates, setFundingRates] = useState<FundingRate[]>([]);
+  const [openInterest, setOpenInterest] = useState<OpenInterest[]>([]);
+  const [showVolume, setShowVolume] = useState(false);
+  const [showTakerDelta, setShowTakerDelta] = useState(false);
+  const [showFunding, setShowFunding] = useState(false);
+  const [showQuality, setShowQuality] = useState(false);
+  const [qualityReport, setQualityReport] = useState<CandleQualityReport | null>(null);
+  const [showOpenInterest, setShowOpenInterest] = useState(false);
   const [drawings, setDrawings] = useState<Drawing[]>([]);
   const [tool, setTool] = useState<Tool>("none");
   const [pendingPoint, setPendingPoint] = useState<DrawingPoint | null>(null);
   const [hoverPoint, setHoverPoint] = useState<DrawingPoint | null>(null);
   const [didInitialFit, setDidInitialFit] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [syncing, setSyncing] = useState(false);
+  const [syncJob, setSyncJob] = useState<SyncJob | null>(null);
+  const [liveEnabled, setLiveEnabled] = useState(() => localStorage.getItem("live") === "true");
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [schedules, setSchedules] = useState<SyncSchedule[]>([]);
+  const [scheduleCron, setScheduleCron] = useState(DEFAULT_SCHEDULE_CRON);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextToastIdRef = useRef(1);
+  const [showSessions, setShowSessions] = useState(false);
+  const [replaySessions, setReplaySessions] = useState<ReplaySession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<number | null>(null);
+  const [sessionName, setSessionName] = useState("");
+  // Set while a resumed session waits for its chart to load.
+  const pendingSessionRef = useRef<ReplaySession | null>(null);
+  // Pair the chart last loaded, to tell an interval switch from a new pair.
+  const chartPairRef = useRef<string | null>(null);
+  const sessionSavedAtRef = useRef(0);
+
+  const [gaps, setGaps] = useState<CandleGap[]>([]);
+  const [importFiles, setImportFiles] = useState<File[]>([]);
+  const [importFormat, setImportFormat] = useState<ImportFormat>("binance");
+  const [importMapping, setImportMapping] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
 
   const [speed, setSpeed] = useState<number>(2);
-  const [replayStartIndex, setReplayStartIndex] = useState<number | null>(null);
-  const [currentReplayIndex, setCurrentReplayIndex] = useState<number | null>(null);
+  // Replay positions are moments, not candle indexes, so they survive interval switches (see replayClock.ts).
+  const [replayStartTime, setReplayStartTime] = useState<number | null>(null);
+  const [replayTime, setReplayTime] = useState<number | null>(null);
+  // BASE_INTERVAL candles inside the candle replay is partway through, keyed like formingKey below.
+  const [formingParts, setFormingParts] = useState<{ key: string; candles: Candle[] } | null>(null);
   const [replayRunning, setReplayRunning] = useState(false);
   const [autoFollow, setAutoFollow] = useState(true);
+  const [intrabar, setIntrabar] = useState(false);
   const [showMondayLevels, setShowMondayLevels] = useState(false);
 
   const [selectedDrawingId, setSelectedDrawingId] = useState<number | null>(null);
@@ -245,12 +517,86 @@ export default function App() {
   const [emaInput, setEmaInput] = useState<string>(() => localStorage.getItem("emaPeriods") ?? "20,50,200");
   const [emaPeriods, setEmaPeriods] = useState<number[]>(() => parsePeriods(localStorage.getItem("emaPeriods") ?? "20,50,200"));
 
+  const [showTrading, setShowTrading] = useState(false);
+  const [broker, setBroker] = useState<BrokerState>(() => createBroker(loadBrokerSettings()));
+  const [orderQuantity, setOrderQuantity] = useState("1");
+  const [ticketType, setTicketType] = useState<TicketType>("limit");
+  const [ticketPrice, setTicketPrice] = useState("");
+  const [ticketStopPrice, setTicketStopPrice] = useState("");
+  const [paperBalanceInput, setPaperBalanceInput] = useState(() => String(broker.settings.initialBalance));
+  const [paperFeeInput, setPaperFeeInput] = useState(() => String(broker.settings.feeRate * 100));
+  const [paperSlippageInput, setPaperSlippageInput] = useState(() => String(broker.settings.slippage * 100));
+
+  const dismissToast = (id: number) => setToasts((prev) => prev.filter((t) => t.id !== id));
+
+  // Polls repeat the same failure, so a message already on screen is not stacked again.
+  const showError = (error: unknown) => {
+    const message = errorMessage(error);
+    const id = nextToastIdRef.current++;
+    const requestId = error instanceof ApiRequestError ? error.requestId : null;
+    setToasts((prev) => (prev.some((t) => t.message === message) ? prev : [...prev, { id, message, requestId }]));
+    window.setTimeout(() => dismissToast(id), TOAST_MS);
+  };
+
+  // Runs an async action started by an effect or event and shows its failure as a toast.
+  const runAction = (action: Promise<unknown>) => {
+    action.catch(showError);
+  };
+
+  // Last candle that opened before the replay start / replay moment; null before the first loaded candle.
+  const replayStartIndex = useMemo(() => {
+    const count = replayStartTime === null ? 0 : countOpenedBefore(candles, replayStartTime);
+    return count > 0 ? count - 1 : null;
+  }, [candles, replayStartTime]);
+  const currentReplayIndex = useMemo(() => {
+    const count = replayTime === null ? 0 : countOpenedBefore(candles, replayTime);
+    return count > 0 ? count - 1 : null;
+  }, [candles, replayTime]);
+
+  // The candle replay is partway through, after switching to a higher interval mid-candle.
+  const replayFormingCandle =
+    currentReplayIndex !== null && replayTime !== null && candleEnd(candles[currentReplayIndex]) > replayTime
+      ? candles[currentReplayIndex]
+      : null;
+  const formingKey = replayFormingCandle ? `${provider}:${market}:${symbol}:${interval}:${replayFormingCandle.openTime}` : null;
+  const formingPending = formingKey !== null && formingParts?.key !== formingKey;
+  // Without stored sub-bars intrabar replay finishes the candle in one step.
+  const formingHasSubBars = formingKey === null || formingPending || (formingParts?.candles.length ?? 0) > 0;
+
   const displayedCandles = useMemo(() => {
-    if (currentReplayIndex === null) {
+    if (replayTime === null) {
       return candles;
     }
-    return candles.slice(0, currentReplayIndex + 1);
-  }, [candles, currentReplayIndex]);
+    const shown = candles.slice(0, currentReplayIndex === null ? 0 : currentReplayIndex + 1);
+    if (replayFormingCandle) {
+      // Hidden until its BASE_INTERVAL candles have loaded, or when none are stored.
+      shown.pop();
+      const forming = formingParts?.key === formingKey ? formingCandle(replayFormingCandle, formingParts.candles, replayTime) : null;
+      if (forming) {
+        shown.push(forming);
+      }
+    }
+    return shown;
+  }, [candles, currentReplayIndex, replayTime, replayFormingCandle, formingKey, formingParts]);
+
+  // Orders are checked against the forming candle's sub-bars, so one placed mid-candle can still fill in it.
+  const brokerCandles = useMemo(() => {
+    if (!replayFormingCandle || replayTime === null || currentReplayIndex === null || formingParts?.key !== formingKey) {
+      return displayedCandles;
+    }
+    return [...candles.slice(0, currentReplayIndex), ...formingParts.candles.filter((p) => p.openTime < replayTime)];
+  }, [displayedCandles, candles, currentReplayIndex, replayTime, replayFormingCandle, formingKey, formingParts]);
+
+  // During replay positions play out on the complete candles revealed so far; saved outcomes stay untouched.
+  const shownDrawings = useMemo(() => {
+    if (replayTime === null) {
+      return drawings;
+    }
+    const revealed = candles.slice(0, currentReplayIndex === null ? 0 : currentReplayIndex + (replayFormingCandle ? 0 : 1));
+    return drawings.map((d) =>
+      d.type === "longpos" || d.type === "shortpos" ? { ...d, outcome: resolvePosition(d, revealed, interval) } : d
+    );
+  }, [drawings, candles, currentReplayIndex, replayTime, replayFormingCandle, interval]);
 
   const mondayRanges = useMemo<MondayRange[]>(() => {
     if (displayedCandles.length === 0) {
@@ -259,7 +605,7 @@ export default function App() {
 
     const grouped = new Map<number, Candle[]>();
     for (const c of displayedCandles) {
-      const weekStart = startOfUtcMonday(c.openTime);
+      const weekStart = intervalStart(c.openTime, "1W");
       const bucket = grouped.get(weekStart);
       if (bucket) {
         bucket.push(c);
@@ -268,8 +614,6 @@ export default function App() {
       }
     }
 
-    const stepMs = INTERVAL_MS[interval];
-    const oneWeekMs = 7 * 24 * 60 * 60 * 1000;
     const ranges: MondayRange[] = [];
 
     for (const [weekStartMs, weekCandles] of grouped.entries()) {
@@ -291,7 +635,8 @@ export default function App() {
 
       ranges.push({
         weekStartMs,
-        weekEndMs: weekStartMs + oneWeekMs - stepMs,
+        // Open time of the week's last candle.
+        weekEndMs: intervalStart(nextIntervalStart(weekStartMs, "1W") - 1, interval),
         mondayHigh,
         mondayLow,
       });
@@ -301,13 +646,33 @@ export default function App() {
     return ranges;
   }, [displayedCandles, interval]);
 
-  const replayStartTimeMs = replayStartIndex !== null ? candles[replayStartIndex]?.openTime ?? null : null;
-  const isReplayPrepared = replayStartIndex !== null;
-  const isReplayInProgress = currentReplayIndex !== null;
+  const isDerivedInterval = DERIVED_INTERVALS.includes(interval);
+  const effectiveSource: CandleSource = isDerivedInterval ? "derived" : candleSource;
+  // Derived candles are only as fresh as their base, so sync that instead.
+  const syncInterval: Interval = effectiveSource === "stored" && isStoredInterval(interval) ? interval : BASE_INTERVAL;
+  const syncing = isSyncJobActive(syncJob);
+  const symbolInfo = useMemo(() => symbols.find((s) => s.symbol === symbol) ?? null, [symbols, symbol]);
+  const providerInfo = useMemo(() => providers.find((p) => p.id === provider) ?? null, [providers, provider]);
+  // Until the provider list arrives, assume the interval is served rather than flash a disabled button.
+  const providerServesSyncInterval = providerInfo ? providerInfo.intervals.includes(syncInterval) : true;
+  const isPerp = market === "perp";
+  // Live updates extend stored exchange candles up to now; derived or custom-range charts stay static.
+  const hasTradeStats = providerInfo?.tradeStats ?? false;
+  const canGoLive = (providerInfo?.live ?? false) && effectiveSource === "stored" && historyPreset !== "custom";
+  const isLive = liveEnabled && canGoLive && replayTime === null;
+
+  const replayStartCandleTime = replayStartIndex !== null ? candles[replayStartIndex].openTime : null;
+  const activeSession = replaySessions.find((s) => s.id === activeSessionId) ?? null;
+  const isReplayPrepared = replayStartTime !== null;
+  const isReplayInProgress = replayTime !== null;
+  // Paper orders are placed against the last candle replay has revealed.
+  const replayCandle = isReplayInProgress ? displayedCandles[displayedCandles.length - 1] ?? null : null;
+  const pricePrecision = symbolInfo ? tickSizeToPrecision(symbolInfo.tickSize) : 2;
   const selectedDrawing = useMemo(
     () => (selectedDrawingId === null ? null : drawings.find((d) => d.id === selectedDrawingId) ?? null),
     [drawings, selectedDrawingId]
   );
+  const selectedOutcome = selectedDrawing ? shownDrawings.find((d) => d.id === selectedDrawing.id)?.outcome ?? null : null;
   const isPositionSelected = selectedDrawing?.type === "longpos" || selectedDrawing?.type === "shortpos";
   const isCanvasInteractive = tool !== "none" || isPositionSelected || draggingHandle !== null;
 
@@ -408,6 +773,11 @@ export default function App() {
     resizeObserver.observe(chartContainer);
 
     chart.timeScale().subscribeVisibleTimeRangeChange(() => drawOverlayRef.current());
+    chart.timeScale().subscribeVisibleLogicalRangeChange((range) => {
+      if (range && range.from < LOAD_OLDER_MARGIN_BARS) {
+        runAction(loadOlderCandlesRef.current());
+      }
+    });
     chart.subscribeCrosshairMove((param) => {
       if (toolRef.current !== "none") {
         return;
@@ -441,37 +811,395 @@ export default function App() {
       chart.remove();
       chartRef.current = null;
       candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      takerDeltaSeriesRef.current = null;
+      fundingSeriesRef.current = null;
+      openInterestSeriesRef.current = null;
       emaSeriesRef.current.clear();
     };
   }, []);
 
   useEffect(() => {
+    const loadSymbols = async () => {
+      const [providersRes, symbolsRes] = await Promise.all([
+        api.listProviders(),
+        api.listSymbols(),
+      ]);
+      setProviders(providersRes);
+      setSymbols(symbolsRes);
+    };
+
+    runAction(loadSymbols());
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem("provider", provider);
+  }, [provider]);
+
+  useEffect(() => {
+    localStorage.setItem("market", market);
+  }, [market]);
+
+  useEffect(() => {
+    if (providerInfo && !providerInfo.markets.includes(market)) {
+      setMarket("spot");
+    }
+  }, [providerInfo, market]);
+
+  useEffect(() => {
+    localStorage.setItem("symbol", symbol);
+  }, [symbol]);
+
+  useEffect(() => {
+    localStorage.setItem("historyPreset", historyPreset);
+  }, [historyPreset]);
+
+  useEffect(() => {
+    localStorage.setItem("live", String(liveEnabled));
+  }, [liveEnabled]);
+
+  useEffect(() => {
+    candlesRef.current = candles;
+  }, [candles]);
+
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    if (!candleSeries || !symbolInfo) {
+      return;
+    }
+    candleSeries.applyOptions({
+      priceFormat: {
+        type: "price",
+        precision: tickSizeToPrecision(symbolInfo.tickSize),
+        minMove: symbolInfo.tickSize,
+      },
+    });
+  }, [symbolInfo]);
+
+  useEffect(() => {
+    // Another interval or source of the same pair keeps replay at the same moment; another pair starts over.
+    const pair = `${provider}:${market}:${symbol}`;
+    const keepReplay = pair === chartPairRef.current && replayStartTime !== null;
+    chartPairRef.current = pair;
+
     const load = async () => {
       setLoading(true);
+      candlesGenerationRef.current += 1;
+      const generation = candlesGenerationRef.current;
+      const session = pendingSessionRef.current;
+      pendingSessionRef.current = null;
       try {
-        const twoYearsAgo = Date.now() - 2 * 365 * 24 * 60 * 60 * 1000;
-        const [candlesRes, drawingsRes] = await Promise.all([
-          api.get<Candle[]>("/api/candles", {
-            params: { symbol: SYMBOL, interval, from: twoYearsAgo, to: Date.now() },
-          }),
-          api.get<Drawing[]>("/api/drawings", { params: { symbol: SYMBOL } }),
+        // Only the latest page is loaded up front; older history follows as the chart is scrolled left.
+        const [latest, drawingsRes] = await Promise.all([
+          fetchCandlePage({ limit: CANDLE_PAGE_SIZE }),
+          api.listDrawings({ query: { symbol } }),
         ]);
+        if (generation !== candlesGenerationRef.current) {
+          return;
+        }
 
-        setCandles(candlesRes.data);
-        setDrawings(drawingsRes.data);
-        setReplayStartIndex(null);
-        setCurrentReplayIndex(null);
-        setReplayRunning(false);
+        hasOlderCandlesRef.current = latest.length === CANDLE_PAGE_SIZE;
+        // Replay needs every candle back to where it started.
+        const since = session?.startTime ?? (keepReplay ? replayStartTime : null);
+        const loaded = since === null ? latest : await loadCandlesSince(since, latest);
+        if (generation !== candlesGenerationRef.current) {
+          return;
+        }
+
+        setCandles(loaded);
+        setDrawings(drawingsRes);
         setDidInitialFit(false);
         setSelectedDrawingId(null);
         setSelectedDrawingAnchor(null);
+
+        const covered = since === null || coversReplayStart(loaded, since);
+        if (session && covered) {
+          applyReplaySession(session);
+        } else if (!keepReplay || !covered) {
+          onResetReplay();
+        }
+        if (!covered) {
+          throw new Error(`${session ? `"${session.name}"` : "Replay"} starts before the selected history range`);
+        }
       } finally {
         setLoading(false);
       }
     };
 
-    void load();
-  }, [interval]);
+    runAction(load());
+  }, [provider, market, symbol, interval, effectiveSource, historyPreset, customFrom, customTo]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSyncJob(null);
+
+    const attachActiveJob = async () => {
+      const jobs = await api.listSyncJobs({ query: { provider, market, symbol, interval: syncInterval } });
+      const active = jobs.find((job) => isSyncJobActive(job)) ?? null;
+      if (!cancelled && active) {
+        setSyncJob(active);
+      }
+    };
+
+    runAction(attachActiveJob());
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, market, symbol, syncInterval]);
+
+  const syncJobId = syncJob?.id ?? null;
+
+  useEffect(() => {
+    if (syncJobId === null || !syncing) {
+      return;
+    }
+
+    const source = new EventSource(apiUrl(endpoints.syncJobEvents, { params: { id: syncJobId } }));
+    source.onmessage = (e) => {
+      let next: SyncJob;
+      try {
+        next = parseFrame<SyncJob>(syncJobSchema, e.data, "Sync job events");
+      } catch (error) {
+        showError(error);
+        return;
+      }
+      setSyncJob(next);
+      if (!isSyncJobActive(next)) {
+        source.close();
+      }
+    };
+
+    return () => source.close();
+  }, [syncJobId, syncing]);
+
+  useEffect(() => {
+    if (
+      syncJob?.status !== "completed" ||
+      syncJob.provider !== provider ||
+      syncJob.market !== market ||
+      syncJob.symbol !== symbol ||
+      syncJob.interval !== syncInterval
+    ) {
+      return;
+    }
+    runAction(refreshCandles());
+  }, [syncJob?.status]);
+
+  useEffect(() => {
+    if (!showSchedules) {
+      return;
+    }
+
+    const loadSchedules = async () => {
+      setSchedules(await api.listSyncSchedules());
+    };
+
+    runAction(loadSchedules());
+    const timer = window.setInterval(() => runAction(loadSchedules()), SCHEDULES_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [showSchedules]);
+
+  useEffect(() => {
+    if (!showSessions) {
+      return;
+    }
+
+    const loadSessions = async () => {
+      setReplaySessions(await api.listReplaySessions());
+    };
+
+    runAction(loadSessions());
+  }, [showSessions]);
+
+  useEffect(() => {
+    if (activeSessionId === null || replayTime === null) {
+      return;
+    }
+    // Saving every revealed candle would flood the API at high speeds.
+    if (replayRunning && Date.now() - sessionSavedAtRef.current < SESSION_SAVE_MS) {
+      return;
+    }
+    sessionSavedAtRef.current = Date.now();
+
+    const saveProgress = async () => {
+      const saved = await api.updateReplaySession({
+        params: { id: activeSessionId },
+        body: { interval, currentTime: replayTime, settings: { speed, autoFollow, intrabar } },
+      });
+      setReplaySessions((prev) => [saved, ...prev.filter((s) => s.id !== saved.id)]);
+    };
+
+    runAction(saveProgress());
+  }, [activeSessionId, replayTime, replayRunning, speed, autoFollow, intrabar, interval]);
+
+  useEffect(() => {
+    // Only stored candles can be checked; derived ones are rebuilt from their base on every request.
+    if (!showQuality || effectiveSource !== "stored") {
+      setQualityReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadQuality = async () => {
+      const { from, to } = resolveHistoryWindow(historyPreset, customFrom, customTo);
+      const reports = await api.checkCandleQuality({ query: { provider, market, symbol, interval, from, to } });
+      if (!cancelled) {
+        setQualityReport(reports[0] ?? null);
+      }
+    };
+
+    runAction(loadQuality());
+    return () => {
+      cancelled = true;
+    };
+  }, [showQuality, effectiveSource, provider, market, symbol, interval, historyPreset, syncJob?.status]);
+
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    if (!candleSeries) {
+      return;
+    }
+
+    const firstTime = displayedCandles[0]?.openTime ?? 0;
+    const lastTime = displayedCandles[displayedCandles.length - 1]?.openTime ?? 0;
+    // One marker per bar; a bar can break several rules at once.
+    const byTime = new Map<number, CandleAnomaly[]>();
+    for (const anomaly of qualityReport?.anomalies ?? []) {
+      if (anomaly.fromTime >= firstTime && anomaly.fromTime <= lastTime) {
+        byTime.set(anomaly.fromTime, [...(byTime.get(anomaly.fromTime) ?? []), anomaly]);
+      }
+    }
+
+    const markers: SeriesMarker<Time>[] = [...byTime.entries()].map(([time, anomalies]) => ({
+      time: toUtcTimestamp(time),
+      position: "aboveBar",
+      color: "#f59e0b",
+      shape: "circle",
+      text: anomalies.map((a) => ANOMALY_LABELS[a.kind]).join(", "),
+    }));
+    const lastCloseTime = displayedCandles[displayedCandles.length - 1]?.closeTime ?? 0;
+    for (const fill of broker.fills) {
+      if (fill.time >= firstTime && fill.time <= lastCloseTime) {
+        const buy = fill.side === "buy";
+        // Fills from sub-bars or another interval are marked on the candle they fall in.
+        const bar = displayedCandles[countOpenedBefore(displayedCandles, fill.time + 1) - 1];
+        markers.push({
+          time: toUtcTimestamp(bar.openTime),
+          position: buy ? "belowBar" : "aboveBar",
+          color: buy ? "#16c784" : "#ea3943",
+          shape: buy ? "arrowUp" : "arrowDown",
+          text: `${buy ? "Buy" : "Sell"} ${formatQuantity(fill.quantity)}`,
+        });
+      }
+    }
+    // The chart requires markers in time order.
+    markers.sort((a, b) => (a.time as number) - (b.time as number));
+    candleSeries.setMarkers(markers);
+  }, [qualityReport, displayedCandles, broker.fills]);
+
+  useEffect(() => {
+    if (!isReplayInProgress) {
+      return;
+    }
+    setBroker((prev) => advanceBroker(prev, brokerCandles));
+  }, [brokerCandles, isReplayInProgress]);
+
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    if (!candleSeries) {
+      return;
+    }
+
+    for (const line of tradeLinesRef.current) {
+      candleSeries.removePriceLine(line);
+    }
+    const lines = broker.orders.map((order) =>
+      candleSeries.createPriceLine({
+        price: order.price,
+        color: order.side === "buy" ? UP_BAR_COLOR : DOWN_BAR_COLOR,
+        lineWidth: 1,
+        lineStyle: LineStyle.Dashed,
+        axisLabelVisible: true,
+        title: `${order.side} ${order.type} ${formatQuantity(order.quantity)}`,
+      })
+    );
+    const { quantity, averagePrice } = broker.position;
+    if (quantity !== 0) {
+      lines.push(
+        candleSeries.createPriceLine({
+          price: averagePrice,
+          color: "#60a5fa",
+          lineWidth: 1,
+          lineStyle: LineStyle.Solid,
+          axisLabelVisible: true,
+          title: `${quantity > 0 ? "long" : "short"} ${formatQuantity(Math.abs(quantity))}`,
+        })
+      );
+    }
+    tradeLinesRef.current = lines;
+  }, [broker.orders, broker.position]);
+
+  // Outside replay, positions that are still undecided are resolved on the loaded history and saved.
+  // During replay a result is saved once it is settled on the revealed candles; an open trade at the
+  // replay moment says nothing about history yet. A settled outcome stays until the position is moved.
+  useEffect(() => {
+    if (draggingHandle !== null) {
+      return;
+    }
+
+    // The live candle is still forming.
+    const complete = isLive ? candles.slice(0, -1) : candles;
+    const changed = new Map<number, PositionOutcome | null>();
+    for (const [i, d] of drawings.entries()) {
+      if ((d.type === "longpos" || d.type === "shortpos") && !isSettled(d.outcome)) {
+        // shownDrawings maps drawings one to one.
+        const outcome = replayTime === null ? resolvePosition(d, complete, interval) : shownDrawings[i].outcome;
+        if (replayTime !== null && !isSettled(outcome)) {
+          continue;
+        }
+        if (!sameOutcome(outcome, d.outcome)) {
+          changed.set(d.id, outcome);
+        }
+      }
+    }
+    if (changed.size === 0) {
+      return;
+    }
+
+    setDrawings((prev) => prev.map((d) => (changed.has(d.id) ? { ...d, outcome: changed.get(d.id) ?? null } : d)));
+    for (const [id, outcome] of changed) {
+      runAction(api.updateDrawing({ params: { id }, body: { outcome } }));
+    }
+  }, [drawings, shownDrawings, candles, replayTime, isLive, interval, draggingHandle]);
+
+  useEffect(() => {
+    const loadGaps = async () => {
+      const report = await api.listCandleGaps({ query: { provider, market, symbol, interval: syncInterval } });
+      setGaps(report.gaps);
+    };
+
+    runAction(loadGaps());
+  }, [provider, market, symbol, syncInterval, storedVersion]);
+
+  useEffect(() => {
+    if (!isPerp) {
+      setFundingRates([]);
+      setOpenInterest([]);
+      return;
+    }
+
+    const loadDerivatives = async () => {
+      const { from, to } = resolveHistoryWindow(historyPreset, customFrom, customTo);
+      const [fundingRes, openInterestRes] = await Promise.all([
+        api.listFundingRates({ query: { provider, symbol, from, to } }),
+        api.listOpenInterest({ query: { provider, symbol, interval: syncInterval, from, to } }),
+      ]);
+      setFundingRates(fundingRes);
+      setOpenInterest(openInterestRes);
+    };
+
+    runAction(loadDerivatives());
+  }, [isPerp, provider, symbol, syncInterval, historyPreset, customFrom, customTo, storedVersion]);
 
   useEffect(() => {
     const candleSeries = candleSeriesRef.current;
@@ -497,18 +1225,37 @@ export default function App() {
 
     const palette = ["#fbbf24", "#67e8f9", "#f472b6", "#86efac", "#fca5a5", "#c4b5fd"];
 
+    const emaBase: LiveEmaBase = {
+      lastOpenTime: displayedCandles[displayedCandles.length - 1]?.openTime ?? 0,
+      beforeLast: new Map(),
+      atLast: new Map(),
+    };
+
     emaPeriods.forEach((period, idx) => {
       const lineSeries = chart.addLineSeries({
         color: palette[idx % palette.length],
         lineWidth: 2,
         priceLineVisible: false,
       });
-      lineSeries.setData(computeEma(displayedCandles, period));
+      const ema = computeEma(displayedCandles, period);
+      lineSeries.setData(ema);
       emaSeriesRef.current.set(period, lineSeries);
+      if (ema.length > 0) {
+        emaBase.atLast.set(period, ema[ema.length - 1].value);
+      }
+      if (ema.length > 1) {
+        emaBase.beforeLast.set(period, ema[ema.length - 2].value);
+      }
     });
+    liveEmaBaseRef.current = emaBase;
 
     if (!didInitialFit && displayedCandles.length > 0) {
-      chart.timeScale().fitContent();
+      // A resumed session opens on its replay cursor rather than the whole history.
+      if (currentReplayIndex !== null) {
+        centerReplayViewport(currentReplayIndex);
+      } else {
+        chart.timeScale().fitContent();
+      }
       setDidInitialFit(true);
     }
 
@@ -516,34 +1263,280 @@ export default function App() {
   }, [displayedCandles, emaPeriods, didInitialFit]);
 
   useEffect(() => {
-    if (!replayRunning || currentReplayIndex === null) {
+    const chart = chartRef.current;
+    const candleSeries = candleSeriesRef.current;
+    if (!chart || !candleSeries) {
+      return;
+    }
+
+    const panes: SubPane[] = [];
+    if (showVolume) {
+      panes.push("volume");
+    }
+    if (hasTradeStats && showTakerDelta) {
+      panes.push("takerDelta");
+    }
+    if (isPerp && showFunding) {
+      panes.push("funding");
+    }
+    if (isPerp && showOpenInterest) {
+      panes.push("openInterest");
+    }
+
+    // lightweight-charts 4 has no panes; sub-panes are overlay price scales stacked under the candles.
+    candleSeries.priceScale().applyOptions({
+      scaleMargins: { top: 0.1, bottom: 0.1 + panes.length * SUB_PANE_HEIGHT },
+    });
+    const paneMargins = (pane: SubPane) => {
+      const fromBottom = panes.length - 1 - panes.indexOf(pane);
+      return { top: 1 - (fromBottom + 1) * SUB_PANE_HEIGHT + 0.02, bottom: fromBottom * SUB_PANE_HEIGHT };
+    };
+
+    if (panes.includes("volume")) {
+      if (!volumeSeriesRef.current) {
+        volumeSeriesRef.current = chart.addHistogramSeries({
+          priceScaleId: "volume",
+          priceFormat: { type: "volume" },
+          priceLineVisible: false,
+        });
+      }
+      volumeSeriesRef.current.priceScale().applyOptions({ scaleMargins: paneMargins("volume") });
+      volumeSeriesRef.current.setData(displayedCandles.map(volumeBar));
+    } else if (volumeSeriesRef.current) {
+      chart.removeSeries(volumeSeriesRef.current);
+      volumeSeriesRef.current = null;
+    }
+
+    if (panes.includes("takerDelta")) {
+      if (!takerDeltaSeriesRef.current) {
+        takerDeltaSeriesRef.current = chart.addHistogramSeries({
+          priceScaleId: "takerDelta",
+          priceFormat: { type: "volume" },
+          priceLineVisible: false,
+        });
+      }
+      takerDeltaSeriesRef.current.priceScale().applyOptions({ scaleMargins: paneMargins("takerDelta") });
+      takerDeltaSeriesRef.current.setData(
+        displayedCandles.map(takerDeltaBar).filter((bar): bar is HistogramData<UTCTimestamp> => bar !== null)
+      );
+    } else if (takerDeltaSeriesRef.current) {
+      chart.removeSeries(takerDeltaSeriesRef.current);
+      takerDeltaSeriesRef.current = null;
+    }
+
+    if (panes.includes("funding")) {
+      if (!fundingSeriesRef.current) {
+        fundingSeriesRef.current = chart.addHistogramSeries({
+          priceScaleId: "funding",
+          priceFormat: { type: "percent", precision: 4, minMove: 0.0001 },
+          priceLineVisible: false,
+        });
+      }
+      fundingSeriesRef.current.priceScale().applyOptions({ scaleMargins: paneMargins("funding") });
+      const data: HistogramData<UTCTimestamp>[] = alignToCandles(
+        fundingRates.map((f) => ({ time: f.fundingTime, value: f.fundingRate * 100 })),
+        displayedCandles
+      ).map((point) => ({ ...point, color: point.value >= 0 ? UP_BAR_COLOR : DOWN_BAR_COLOR }));
+      fundingSeriesRef.current.setData(data);
+    } else if (fundingSeriesRef.current) {
+      chart.removeSeries(fundingSeriesRef.current);
+      fundingSeriesRef.current = null;
+    }
+
+    if (panes.includes("openInterest")) {
+      if (!openInterestSeriesRef.current) {
+        openInterestSeriesRef.current = chart.addLineSeries({
+          priceScaleId: "openInterest",
+          color: "#a78bfa",
+          lineWidth: 2,
+          priceLineVisible: false,
+        });
+      }
+      openInterestSeriesRef.current.priceScale().applyOptions({ scaleMargins: paneMargins("openInterest") });
+      openInterestSeriesRef.current.setData(
+        alignToCandles(
+          openInterest.map((o) => ({ time: o.time, value: o.openInterest })),
+          displayedCandles
+        )
+      );
+    } else if (openInterestSeriesRef.current) {
+      chart.removeSeries(openInterestSeriesRef.current);
+      openInterestSeriesRef.current = null;
+    }
+  }, [
+    displayedCandles,
+    fundingRates,
+    openInterest,
+    isPerp,
+    hasTradeStats,
+    showVolume,
+    showTakerDelta,
+    showFunding,
+    showOpenInterest,
+  ]);
+
+  useEffect(() => {
+    // Waits for the forming candle's sub-bars so it is never skipped while they load.
+    if (!replayRunning || replayTime === null || formingPending) {
       return;
     }
 
     const timer = window.setInterval(() => {
-      setCurrentReplayIndex((prev) => {
+      setReplayTime((prev) => {
         if (prev === null) {
           return prev;
         }
-        if (prev >= candles.length - 1) {
+        const next = nextReplayTime(candles, prev, intrabar && formingHasSubBars ? SUB_BAR_MS : undefined);
+        if (next === null) {
           setReplayRunning(false);
           return prev;
         }
-        return prev + 1;
+        return next;
       });
     }, Math.max(80, Math.floor(1000 / speed)));
 
     return () => window.clearInterval(timer);
-  }, [replayRunning, currentReplayIndex, speed, candles.length]);
+  }, [replayRunning, replayTime, formingPending, formingHasSubBars, speed, intrabar, candles]);
 
   useEffect(() => {
-    drawingsRef.current = drawings;
+    if (!liveEnabled || !canGoLive || replayRunning || replayTime === null || nextReplayTime(candles, replayTime) !== null) {
+      return;
+    }
+    // Replay caught up with the stored history; hand the chart over to the live stream.
+    setReplayTime(null);
+    setReplayStartTime(null);
+  }, [liveEnabled, canGoLive, replayRunning, replayTime, candles]);
+
+  useEffect(() => {
+    if (!replayFormingCandle || formingKey === null || formingParts?.key === formingKey) {
+      return;
+    }
+
+    let cancelled = false;
+    const loadFormingParts = async () => {
+      let parts: Candle[];
+      try {
+        parts = await fetchBaseCandles(replayFormingCandle.openTime, replayFormingCandle.closeTime);
+      } catch (error) {
+        // Without parts replay would wait forever; treat them as missing and step whole candles.
+        if (!cancelled) {
+          setFormingParts({ key: formingKey, candles: [] });
+        }
+        throw error;
+      }
+      if (!cancelled) {
+        setFormingParts({ key: formingKey, candles: parts });
+      }
+    };
+
+    runAction(loadFormingParts());
+    return () => {
+      cancelled = true;
+    };
+  }, [formingKey]);
+
+  useEffect(() => {
+    if (!isLive) {
+      setLiveStatus(null);
+      return;
+    }
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: number | null = null;
+    let stopped = false;
+
+    // Draws the forming candle without re-rendering the whole history.
+    const updateFormingCandle = (candle: Candle) => {
+      const candleSeries = candleSeriesRef.current;
+      const base = liveEmaBaseRef.current;
+      if (!candleSeries || !base || candle.openTime < base.lastOpenTime) {
+        return;
+      }
+
+      const time = toUtcTimestamp(candle.openTime);
+      candleSeries.update({ time, open: candle.open, high: candle.high, low: candle.low, close: candle.close });
+
+      const previous = candle.openTime === base.lastOpenTime ? base.beforeLast : base.atLast;
+      emaSeriesRef.current.forEach((series, period) => {
+        const prev = previous.get(period) ?? candle.close;
+        const value = (candle.close - prev) * (2 / (period + 1)) + prev;
+        series.update({ time, value: Number(value.toFixed(4)) });
+      });
+
+      volumeSeriesRef.current?.update(volumeBar(candle));
+      const delta = takerDeltaBar(candle);
+      if (delta) {
+        takerDeltaSeriesRef.current?.update(delta);
+      }
+    };
+
+    const appendClosedCandle = (candle: Candle) => {
+      setCandles((prev) => {
+        const last = prev[prev.length - 1];
+        if (!last || candle.openTime > last.openTime) {
+          return [...prev, candle];
+        }
+        if (candle.openTime === last.openTime) {
+          return [...prev.slice(0, -1), candle];
+        }
+        return prev;
+      });
+    };
+
+    const connect = () => {
+      const params = new URLSearchParams({ provider, market, symbol, interval });
+      socket = new WebSocket(`${API_URL.replace(/^http/, "ws")}/api/live?${params.toString()}`);
+      socket.onopen = () => setLiveStatus("live");
+      socket.onmessage = (e) => {
+        let message: LiveMessage;
+        try {
+          message = parseFrame<LiveMessage>(liveMessageSchema, e.data, "Live stream");
+        } catch (error) {
+          showError(error);
+          return;
+        }
+        if (message.type === "candle") {
+          updateFormingCandle(message.candle);
+          if (message.closed) {
+            appendClosedCandle(message.candle);
+          }
+        } else if (message.type === "sync") {
+          setSyncJob(message.job);
+        } else {
+          showError(new Error(`Live stream: ${message.error}`));
+        }
+      };
+      socket.onclose = (e) => {
+        // 1008 means the backend rejected the pair; retrying would not change that.
+        if (stopped || e.code === 1008) {
+          setLiveStatus(null);
+          return;
+        }
+        setLiveStatus("reconnecting");
+        reconnectTimer = window.setTimeout(connect, LIVE_RECONNECT_MS);
+      };
+    };
+
+    setLiveStatus("connecting");
+    connect();
+
+    return () => {
+      stopped = true;
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer);
+      }
+      socket?.close();
+    };
+  }, [isLive, provider, market, symbol, interval]);
+
+  useEffect(() => {
+    drawingsRef.current = shownDrawings;
     pendingPointRef.current = pendingPoint;
     hoverPointRef.current = hoverPoint;
     toolRef.current = tool;
     selectedDrawingIdRef.current = selectedDrawingId;
     drawOverlayRef.current();
-  }, [drawings, pendingPoint, hoverPoint, tool, replayStartIndex, interval, candles, currentReplayIndex, selectedDrawingId, showMondayLevels, mondayRanges]);
+  }, [shownDrawings, pendingPoint, hoverPoint, tool, replayStartIndex, interval, candles, currentReplayIndex, selectedDrawingId, showMondayLevels, mondayRanges]);
 
   useEffect(() => {
     if (selectedDrawingId === null) {
@@ -676,7 +1669,13 @@ export default function App() {
     }
 
     const drawOne = (
-      d: { id?: number; type: "hline" | "rect" | "fibo" | "pricerange" | "longpos" | "shortpos"; points: DrawingPoint[]; style?: Record<string, unknown> },
+      d: {
+        id?: number;
+        type: "hline" | "rect" | "fibo" | "pricerange" | "longpos" | "shortpos";
+        points: DrawingPoint[];
+        style?: Record<string, unknown>;
+        outcome?: PositionOutcome | null;
+      },
       preview = false
     ) => {
       const color = String(d.style?.color ?? (preview ? "#fde047" : "#60a5fa"));
@@ -729,12 +1728,35 @@ export default function App() {
         const riskTop = Math.min(yEntry, ySl);
         const riskBottom = Math.max(yEntry, ySl);
         const top = Math.min(yEntry, yTp, ySl);
+        const bottom = Math.max(yEntry, yTp, ySl);
+        const outcome = d.outcome ?? null;
+        const closed = outcome !== null && outcome.exitTime !== null && outcome.exitPrice !== null;
+        const won = closed && (outcome.rMultiple ?? 0) > 0;
 
-        ctx.fillStyle = "rgba(34, 197, 94, 0.28)";
+        // A missed trade fades out; a closed one keeps only the zone it ended in at full strength.
+        ctx.fillStyle = `rgba(34, 197, 94, ${outcome?.result === "missed" || (closed && !won) ? 0.12 : 0.28})`;
         ctx.fillRect(left, rewardTop, Math.abs(right - left), Math.abs(rewardBottom - rewardTop));
-        ctx.fillStyle = "rgba(239, 68, 68, 0.28)";
+        ctx.fillStyle = `rgba(239, 68, 68, ${outcome?.result === "missed" || won ? 0.12 : 0.28})`;
         ctx.fillRect(left, riskTop, Math.abs(right - left), Math.abs(riskBottom - riskTop));
 
+        if (closed) {
+          ctx.strokeStyle = won ? "rgba(34, 197, 94, 0.95)" : "rgba(239, 68, 68, 0.95)";
+          ctx.setLineDash([]);
+          ctx.lineWidth = 2;
+          ctx.strokeRect(left, top, Math.abs(right - left), Math.abs(bottom - top));
+
+          const xIn = outcome.entryTime !== null ? timeMsToX(outcome.entryTime) : null;
+          const xOut = timeMsToX(outcome.exitTime as number);
+          const yOut = candleSeries.priceToCoordinate(outcome.exitPrice as number);
+          if (xIn !== null && xOut !== null && yOut !== null) {
+            ctx.setLineDash([6, 4]);
+            ctx.beginPath();
+            ctx.moveTo(xIn, yEntry);
+            ctx.lineTo(xOut, yOut);
+            ctx.stroke();
+          }
+        }
+
         ctx.strokeStyle = "rgba(0, 0, 0, 0.95)";
         ctx.setLineDash([]);
         ctx.lineWidth = 2;
@@ -755,7 +1777,13 @@ export default function App() {
         const reward = Math.abs(tp.price - entry.price);
         const rr = risk > 0 ? reward / risk : 0;
         const pct = entry.price !== 0 ? (reward / Math.abs(entry.price)) * 100 : 0;
-        const label = `${pct.toFixed(2)}% | R:R ${rr.toFixed(2)}`;
+        let label = `${pct.toFixed(2)}% | R:R ${rr.toFixed(2)}`;
+        if (outcome) {
+          label += ` | ${POSITION_RESULT_LABELS[outcome.result]}`;
+          if (outcome.rMultiple !== null) {
+            label += ` ${outcome.rMultiple >= 0 ? "+" : ""}${outcome.rMultiple.toFixed(2)}R`;
+          }
+        }
 
         if (!preview) {
           ctx.font = "600 12px sans-serif";
@@ -764,7 +1792,7 @@ export default function App() {
           const labelH = 28;
           const labelX = Math.max(left + 4, right - labelW - 6);
           const labelY = Math.max(6, top - labelH - 6);
-          ctx.fillStyle = "rgba(33, 133, 224, 0.98)";
+          ctx.fillStyle = !closed ? "rgba(33, 133, 224, 0.98)" : won ? "rgba(22, 163, 74, 0.98)" : "rgba(220, 38, 38, 0.98)";
           ctx.beginPath();
           ctx.roundRect(labelX, labelY, labelW, labelH, 8);
           ctx.fill();
@@ -996,7 +2024,6 @@ export default function App() {
     }
 
     const rounded = Math.round(logical);
-    const stepMs = INTERVAL_MS[interval];
 
     if (candles.length > 0 && rounded >= 0 && rounded < candles.length) {
       return candles[rounded].openTime;
@@ -1010,11 +2037,11 @@ export default function App() {
     const lastDisplayed = displayedCandles[displayedCandles.length - 1].openTime;
 
     if (rounded < 0) {
-      return first + rounded * stepMs;
+      return shiftInterval(first, interval, rounded);
     }
 
     const lastVisibleIndex = displayedCandles.length - 1;
-    return lastDisplayed + (rounded - lastVisibleIndex) * stepMs;
+    return shiftInterval(lastDisplayed, interval, rounded - lastVisibleIndex);
   };
 
   const timeMsToLogical = (timeMs: number): number | null => {
@@ -1022,16 +2049,15 @@ export default function App() {
       return null;
     }
 
-    const stepMs = INTERVAL_MS[interval];
     const firstTime = candles[0].openTime;
     const lastTime = candles[candles.length - 1].openTime;
 
     if (timeMs <= firstTime) {
-      return (timeMs - firstTime) / stepMs;
+      return intervalsBetween(firstTime, timeMs, interval);
     }
 
     if (timeMs >= lastTime) {
-      return candles.length - 1 + (timeMs - lastTime) / stepMs;
+      return candles.length - 1 + intervalsBetween(lastTime, timeMs, interval);
     }
 
     const idx = nearestCandleIndex(candles, timeMs);
@@ -1239,15 +2265,12 @@ export default function App() {
       style.mode = "position";
     }
 
-    const res = await api.post<Drawing>("/api/drawings", {
-      symbol: SYMBOL,
-      type: payload.type,
-      points: payload.points,
-      style,
+    const created = await api.createDrawing({
+      body: { symbol, type: payload.type, points: payload.points, style },
     });
 
-    setDrawings((prev) => [...prev, res.data]);
-    setSelectedDrawingId(res.data.id);
+    setDrawings((prev) => [...prev, created]);
+    setSelectedDrawingId(created.id);
   };
 
   const onCanvasClick = async (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -1269,9 +2292,11 @@ export default function App() {
     if (tool === "replay-start") {
       const idx = nearestCandleIndex(candles, point.time);
       if (idx >= 0) {
-        setReplayStartIndex(idx);
-        setCurrentReplayIndex(null);
+        setReplayStartTime(candleEnd(candles[idx]));
+        setReplayTime(null);
         setReplayRunning(false);
+        setBroker((prev) => createBroker(prev.settings));
+        setActiveSessionId(null);
         centerReplayViewport(idx);
       }
       return;
@@ -1284,9 +2309,8 @@ export default function App() {
     }
 
     if (tool === "longpos" || tool === "shortpos") {
-      const stepMs = INTERVAL_MS[interval];
       const defaultRisk = point.price * 0.01;
-      const endTime = point.time + stepMs * 40;
+      const endTime = shiftInterval(point.time, interval, 40);
       const slPrice = tool === "longpos" ? point.price - defaultRisk : point.price + defaultRisk;
       const tpPrice = tool === "longpos" ? point.price + defaultRisk : point.price - defaultRisk;
 
@@ -1344,7 +2368,7 @@ export default function App() {
       } else if (draggingHandle === "sl") {
         nextPoints[1] = { ...nextPoints[1], price: dragPoint.price };
       } else if (draggingHandle === "time") {
-        const minTime = nextPoints[0].time + INTERVAL_MS[interval];
+        const minTime = nextIntervalStart(nextPoints[0].time, interval);
         nextPoints[3] = { ...nextPoints[3], time: Math.max(minTime, dragPoint.time) };
       }
 
@@ -1403,7 +2427,9 @@ export default function App() {
     if (!selected) {
       return;
     }
-    await api.put(`/api/drawings/${selected.id}`, { points: selected.points });
+    // Moving a position clears its saved outcome, so it is resolved again from the response.
+    const updated = await api.updateDrawing({ params: { id: selected.id }, body: { points: selected.points } });
+    setDrawings((prev) => prev.map((d) => (d.id === updated.id ? { ...d, outcome: updated.outcome } : d)));
   };
 
   const onToolbarDragStart = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -1452,27 +2478,235 @@ export default function App() {
     };
   }, []);
 
-  const onSync = async () => {
-    setSyncing(true);
+  // One page of the chart's candles in the history window; `before`/`after` are exclusive open-time cursors.
+  const fetchCandlePage = async (page: { limit: number; before?: number; after?: number }): Promise<Candle[]> => {
+    const { from, to } = resolveHistoryWindow(historyPreset, customFrom, customTo);
+    return api.listCandles({
+      query: { provider, market, symbol, interval, from, to, source: effectiveSource, ...page },
+    });
+  };
+
+  const loadOlderCandles = async () => {
+    const oldest = candlesRef.current[0];
+    if (!oldest || loadingOlderRef.current || !hasOlderCandlesRef.current) {
+      return;
+    }
+
+    const generation = candlesGenerationRef.current;
+    loadingOlderRef.current = true;
+    try {
+      const older = await fetchCandlePage({ before: oldest.openTime, limit: CANDLE_PAGE_SIZE });
+      if (generation !== candlesGenerationRef.current) {
+        return;
+      }
+      hasOlderCandlesRef.current = older.length === CANDLE_PAGE_SIZE;
+
+      const firstTime = candlesRef.current[0]?.openTime ?? Infinity;
+      const prepended = older.filter((c) => c.openTime < firstTime);
+      if (prepended.length === 0) {
+        return;
+      }
+      setCandles((prev) => [...prepended, ...prev]);
+    } finally {
+      loadingOlderRef.current = false;
+    }
+  };
+
+  loadOlderCandlesRef.current = loadOlderCandles;
+
+  // Pages back from `loaded` until a candle opens before `time` or the history window runs out.
+  const loadCandlesSince = async (time: number, loaded: Candle[]): Promise<Candle[]> => {
+    const generation = candlesGenerationRef.current;
+    let next = loaded;
+    while (hasOlderCandlesRef.current && next.length > 0 && !coversReplayStart(next, time)) {
+      const older = await fetchCandlePage({ before: next[0].openTime, limit: CANDLE_PAGE_SIZE });
+      if (generation !== candlesGenerationRef.current) {
+        break;
+      }
+      hasOlderCandlesRef.current = older.length === CANDLE_PAGE_SIZE;
+      next = [...older, ...next];
+    }
+    return next;
+  };
+
+  // Stored BASE_INTERVAL candles opening within [from, to], whatever the chart interval.
+  const fetchBaseCandles = async (from: number, to: number): Promise<Candle[]> => {
+    const parts: Candle[] = [];
+    let after = from - 1;
+    while (true) {
+      const page = await api.listCandles({
+        query: { provider, market, symbol, interval: BASE_INTERVAL, from, to, source: "stored", after, limit: MAX_CANDLES_PAGE },
+      });
+      parts.push(...page);
+      if (page.length < MAX_CANDLES_PAGE) {
+        return parts;
+      }
+      after = page[page.length - 1].openTime;
+    }
+  };
+
+  // Reloads the loaded stretch so rows a sync or import added inside it show up, keeping replay on the same candles.
+  const refreshCandles = async () => {
+    const generation = candlesGenerationRef.current;
+    const oldest = candlesRef.current[0];
+    const next: Candle[] = [];
+
+    if (!oldest) {
+      next.push(...(await fetchCandlePage({ limit: CANDLE_PAGE_SIZE })));
+      hasOlderCandlesRef.current = next.length === CANDLE_PAGE_SIZE;
+    } else {
+      let after = oldest.openTime - 1;
+      while (true) {
+        const page = await fetchCandlePage({ after, limit: MAX_CANDLES_PAGE });
+        next.push(...page);
+        if (page.length < MAX_CANDLES_PAGE) {
+          break;
+        }
+        after = page[page.length - 1].openTime;
+      }
+      // A sync may also have added history before the oldest loaded candle.
+      hasOlderCandlesRef.current = true;
+    }
+
+    if (generation !== candlesGenerationRef.current) {
+      return;
+    }
+    setCandles(next);
+    setStoredVersion((v) => v + 1);
+  };
+
+  const onSync = async (mode: SyncJobMode = "forward") => {
+    const { from, to } = resolveHistoryWindow(historyPreset, customFrom, customTo);
+    const syncWindow =
+      historyPreset === "all" ? { sinceListing: true } : historyPreset === "custom" ? { from, to } : { from };
+    const job = await api.startSync({
+      body: {
+        provider,
+        market,
+        symbol,
+        interval: syncInterval,
+        mode,
+        ...(mode === "forward" ? syncWindow : {}),
+      },
+    });
+    setSyncJob(job);
+  };
+
+  const onCancelSync = async () => {
+    if (!syncJob) {
+      return;
+    }
+    setSyncJob(await api.cancelSyncJob({ params: { id: syncJob.id } }));
+  };
+
+  // Runs a schedule request and shows the server's validation message instead of failing silently.
+  const withScheduleErrors = async (request: () => Promise<void>) => {
+    setScheduleError(null);
     try {
-      await api.post("/api/sync", { symbol: SYMBOL, interval });
-      const twoYearsAgo = Date.now() - 2 * 365 * 24 * 60 * 60 * 1000;
-      const candlesRes = await api.get<Candle[]>("/api/candles", {
-        params: { symbol: SYMBOL, interval, from: twoYearsAgo, to: Date.now() },
+      await request();
+    } catch (error) {
+      setScheduleError(errorMessage(error));
+    }
+  };
+
+  const replaceSchedule = (schedule: SyncSchedule) => {
+    setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? schedule : s)));
+  };
+
+  const onAddSchedule = () =>
+    withScheduleErrors(async () => {
+      const schedule = await api.createSyncSchedule({
+        body: { provider, market, symbol, interval: syncInterval, cron: scheduleCron },
       });
-      setCandles(candlesRes.data);
+      setSchedules((prev) => [...prev, schedule]);
+    });
+
+  const onUpdateSchedule = (id: number, patch: { cron?: string; enabled?: boolean }) =>
+    withScheduleErrors(async () => {
+      replaceSchedule(await api.updateSyncSchedule({ params: { id }, body: patch }));
+    });
+
+  const onRunSchedule = (id: number) =>
+    withScheduleErrors(async () => {
+      replaceSchedule(await api.runSyncSchedule({ params: { id } }));
+    });
+
+  const onDeleteSchedule = (id: number) =>
+    withScheduleErrors(async () => {
+      await api.deleteSyncSchedule({ params: { id } });
+      setSchedules((prev) => prev.filter((s) => s.id !== id));
+    });
+
+  const onImport = async () => {
+    if (importFiles.length === 0 || !isStoredInterval(interval)) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const totals: ImportResult = { files: [], rows: 0, valid: 0, rejected: 0, inserted: 0, errors: [] };
+      for (const file of importFiles) {
+        const report = await api.importCandles({
+          upload: file,
+          query: {
+            provider,
+            market,
+            symbol,
+            interval,
+            format: importFormat,
+            fileName: file.name,
+            mapping: importFormat === "generic" ? JSON.stringify(parseColumnMapping(importMapping)) : undefined,
+          },
+        });
+        totals.files.push(...report.files);
+        totals.rows += report.rows;
+        totals.valid += report.valid;
+        totals.rejected += report.rejected;
+        totals.inserted += report.inserted;
+        totals.errors.push(...report.errors);
+      }
+      setImportResult(totals);
+      await refreshCandles();
     } finally {
-      setSyncing(false);
+      setImporting(false);
+    }
+  };
+
+  const onExport = () => {
+    const { from, to } = resolveHistoryWindow(historyPreset, customFrom, customTo);
+    window.location.assign(
+      apiUrl(endpoints.exportCandles, {
+        query: { provider, market, symbol, interval, from, to, format: exportFormat },
+      })
+    );
+  };
+
+  const onAddSymbol = async () => {
+    const next = newSymbolInput.trim().toUpperCase();
+    if (!next) {
+      return;
+    }
+
+    setAddingSymbol(true);
+    try {
+      const added = await api.createSymbol({ body: { provider, symbol: next } });
+      setSymbols((prev) =>
+        [...prev.filter((s) => s.symbol !== added.symbol), added].sort((a, b) => a.symbol.localeCompare(b.symbol))
+      );
+      setSymbol(added.symbol);
+      setNewSymbolInput("");
+    } finally {
+      setAddingSymbol(false);
     }
   };
 
   const onStartReplay = () => {
-    if (replayStartIndex === null) {
+    if (replayStartTime === null) {
       return;
     }
 
-    if (currentReplayIndex === null) {
-      setCurrentReplayIndex(replayStartIndex);
+    if (replayTime === null) {
+      setReplayTime(replayStartTime);
     }
     setReplayRunning(true);
   };
@@ -1497,9 +2731,140 @@ export default function App() {
 
   const onResetReplay = () => {
     setReplayRunning(false);
-    setCurrentReplayIndex(null);
-    setReplayStartIndex(null);
+    setReplayTime(null);
+    setReplayStartTime(null);
     setSelectedDrawingId(null);
+    setBroker((prev) => createBroker(prev.settings));
+    setActiveSessionId(null);
+  };
+
+  // Puts replay where the session left off; its start must already be loaded.
+  const applyReplaySession = (session: ReplaySession) => {
+    setReplayStartTime(session.startTime);
+    setReplayTime(session.currentTime);
+    setReplayRunning(false);
+    setBroker((prev) => createBroker(prev.settings));
+    setSpeed(session.settings.speed);
+    setAutoFollow(session.settings.autoFollow);
+    setIntrabar(session.settings.intrabar);
+    setActiveSessionId(session.id);
+  };
+
+  const restoreReplaySession = async (session: ReplaySession) => {
+    const generation = candlesGenerationRef.current;
+    const loaded = await loadCandlesSince(session.startTime, candlesRef.current);
+    if (generation !== candlesGenerationRef.current) {
+      return;
+    }
+    if (!coversReplayStart(loaded, session.startTime)) {
+      throw new Error(`"${session.name}" starts before the selected history range`);
+    }
+    setCandles(loaded);
+    setDidInitialFit(false);
+    applyReplaySession(session);
+  };
+
+  const onResumeSession = (session: ReplaySession) => {
+    const samePair =
+      session.provider === provider && session.market === market && session.symbol === symbol && session.interval === interval;
+    if (samePair) {
+      runAction(restoreReplaySession(session));
+      return;
+    }
+    // The load effect picks the session up once the chart has switched.
+    pendingSessionRef.current = session;
+    setProvider(session.provider);
+    setMarket(session.market);
+    setSymbol(session.symbol);
+    setInterval(session.interval);
+  };
+
+  const onSaveSession = async () => {
+    if (replayStartTime === null) {
+      return;
+    }
+    const session = await api.createReplaySession({
+      body: {
+        name: sessionName.trim() || `${symbol} ${interval} from ${new Date(replayStartTime).toLocaleDateString()}`,
+        provider,
+        market,
+        symbol,
+        interval,
+        startTime: replayStartTime,
+        currentTime: replayTime ?? replayStartTime,
+        settings: { speed, autoFollow, intrabar },
+      },
+    });
+    setReplaySessions((prev) => [session, ...prev]);
+    setActiveSessionId(session.id);
+    setSessionName("");
+  };
+
+  const onRenameSession = async (session: ReplaySession, name: string) => {
+    if (name.trim() === "" || name.trim() === session.name) {
+      return;
+    }
+    const renamed = await api.updateReplaySession({ params: { id: session.id }, body: { name } });
+    setReplaySessions((prev) => prev.map((s) => (s.id === renamed.id ? renamed : s)));
+  };
+
+  const onDeleteSession = async (id: number) => {
+    await api.deleteReplaySession({ params: { id } });
+    setReplaySessions((prev) => prev.filter((s) => s.id !== id));
+    if (id === activeSessionId) {
+      setActiveSessionId(null);
+    }
+  };
+
+  // Engine rejections (a zero quantity, a missing price) surface like any other failure.
+  const onTrade = (update: (state: BrokerState, candle: Candle) => BrokerState) => {
+    if (!replayCandle) {
+      return;
+    }
+    try {
+      setBroker(update(broker, replayCandle));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const onMarketOrder = (side: OrderSide) => {
+    onTrade((state, candle) => placeOrder(state, { side, type: "market", quantity: Number(orderQuantity) }, candle));
+  };
+
+  const onPlaceTicket = (side: OrderSide) => {
+    const quantity = Number(orderQuantity);
+    const price = Number(ticketPrice);
+    if (ticketType === "oco") {
+      const stopPrice = Number(ticketStopPrice);
+      onTrade((state, candle) =>
+        placeOcoOrder(
+          state,
+          [
+            { side, type: "limit", quantity, price },
+            { side, type: "stop", quantity, price: stopPrice },
+          ],
+          candle
+        )
+      );
+      return;
+    }
+    onTrade((state, candle) => placeOrder(state, { side, type: ticketType, quantity, price }, candle));
+  };
+
+  // New settings start a fresh account; they are kept for the next session.
+  const onResetPaperAccount = () => {
+    const settings: BrokerSettings = {
+      initialBalance: Number(paperBalanceInput),
+      feeRate: Number(paperFeeInput) / 100,
+      slippage: Number(paperSlippageInput) / 100,
+    };
+    if (!(settings.initialBalance > 0) || !(settings.feeRate >= 0) || !(settings.slippage >= 0)) {
+      showError(new Error("Initial balance must be positive and fee and slippage cannot be negative"));
+      return;
+    }
+    localStorage.setItem("paperSettings", JSON.stringify(settings));
+    setBroker(createBroker(settings));
   };
 
   const onApplyEma = () => {
@@ -1516,45 +2881,45 @@ export default function App() {
 
     const nextStyle = { ...(selected.style ?? {}), ...patch };
     setDrawings((prev) => prev.map((d) => (d.id === selected.id ? { ...d, style: nextStyle } : d)));
-    await api.put(`/api/drawings/${selected.id}`, { style: nextStyle });
+    await api.updateDrawing({ params: { id: selected.id }, body: { style: nextStyle } });
   };
 
   const onEditorColorChange = (value: string) => {
     setEditorColor(value);
-    void updateSelectedDrawingStyle({ color: value });
+    runAction(updateSelectedDrawingStyle({ color: value }));
   };
 
   const onEditorWidthChange = (value: number) => {
     const next = Math.min(8, Math.max(1, value || 1));
     setEditorLineWidth(next);
-    void updateSelectedDrawingStyle({ lineWidth: next });
+    runAction(updateSelectedDrawingStyle({ lineWidth: next }));
   };
 
   const onEditorLineStyleChange = (value: LineStyleOption) => {
     setEditorLineStyle(value);
-    void updateSelectedDrawingStyle({ lineStyle: value });
+    runAction(updateSelectedDrawingStyle({ lineStyle: value }));
   };
 
   const onEditorRectFillColorChange = (value: string) => {
     setEditorRectFillColor(value);
     const rgba = hexToRgba(value, editorRectFillOpacity);
-    void updateSelectedDrawingStyle({ fillColor: rgba });
+    runAction(updateSelectedDrawingStyle({ fillColor: rgba }));
   };
 
   const onEditorRectOpacityChange = (value: number) => {
     const next = Math.min(1, Math.max(0, value));
     setEditorRectFillOpacity(next);
     const rgba = hexToRgba(editorRectFillColor, next);
-    void updateSelectedDrawingStyle({ fillColor: rgba });
+    runAction(updateSelectedDrawingStyle({ fillColor: rgba }));
   };
 
   const onEditorFiboLevelsChange = (value: string) => {
     setEditorFiboLevels(value);
-    void updateSelectedDrawingStyle({ levels: parseFiboLevels(value) });
+    runAction(updateSelectedDrawingStyle({ levels: parseFiboLevels(value) }));
   };
 
   const onDeleteDrawing = async (id: number) => {
-    await api.delete(`/api/drawings/${id}`);
+    await api.deleteDrawing({ params: { id } });
     setDrawings((prev) => prev.filter((d) => d.id !== id));
     setSelectedDrawingId((prev) => (prev === id ? null : prev));
   };
@@ -1569,11 +2934,11 @@ export default function App() {
 
   const dimRightStyle = useMemo(() => {
     const chart = chartRef.current;
-    if (!chart || replayStartTimeMs === null || isReplayInProgress) {
+    if (!chart || replayStartCandleTime === null || isReplayInProgress) {
       return { display: "none" } as const;
     }
 
-    const x = chart.timeScale().timeToCoordinate(toUtcTimestamp(replayStartTimeMs));
+    const x = chart.timeScale().timeToCoordinate(toUtcTimestamp(replayStartCandleTime));
     if (x === null) {
       return { display: "none" } as const;
     }
@@ -1582,19 +2947,71 @@ export default function App() {
       display: "block",
       left: `${Math.max(0, x)}px`,
     } as const;
-  }, [replayStartTimeMs, isReplayInProgress, displayedCandles.length]);
+  }, [replayStartCandleTime, isReplayInProgress, displayedCandles.length]);
 
   return (
     <div className="page">
       <div className="topbar">
         <h1>Crypto Replay</h1>
-        <div className="muted">Symbol: {SYMBOL} Spot</div>
+        <div className="muted">
+          {providerInfo?.name ?? provider}: {symbol} {isPerp ? "Perp" : "Spot"}
+          {symbolInfo && ` (${symbolInfo.baseAsset}/${symbolInfo.quoteAsset}, tick ${symbolInfo.tickSize})`}
+        </div>
       </div>
 
       <div className="controls-row">
+        <label>
+          Exchange
+          <select value={provider} onChange={(e) => setProvider(e.target.value as ProviderId)}>
+            {!providers.some((p) => p.id === provider) && <option value={provider}>{provider}</option>}
+            {providers.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Market
+          <select value={market} onChange={(e) => setMarket(e.target.value as MarketType)}>
+            {MARKETS.map((m) => (
+              <option key={m.value} value={m.value} disabled={providerInfo ? !providerInfo.markets.includes(m.value) : false}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Symbol
+          <select value={symbol} onChange={(e) => setSymbol(e.target.value)}>
+            {!symbols.some((s) => s.symbol === symbol) && <option value={symbol}>{symbol}</option>}
+            {symbols.map((s) => (
+              <option key={s.symbol} value={s.symbol}>
+                {s.symbol}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Add symbol
+          <input
+            value={newSymbolInput}
+            onChange={(e) => setNewSymbolInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                runAction(onAddSymbol());
+              }
+            }}
+            placeholder="ETHUSDT"
+          />
+        </label>
+        <button onClick={() => runAction(onAddSymbol())} disabled={addingSymbol || newSymbolInput.trim() === ""}>
+          {addingSymbol ? "Adding..." : "Add Symbol"}
+        </button>
+
         <label>
           Interval
-          <select value={interval} onChange={(e) => setInterval(e.target.value as Interval)}>
+          <select value={interval} onChange={(e) => setInterval(e.target.value as ChartInterval)}>
             {INTERVALS.map((i) => (
               <option key={i} value={i}>
                 {i}
@@ -1603,9 +3020,71 @@ export default function App() {
           </select>
         </label>
 
-        <button onClick={onSync} disabled={syncing}>
+        {interval !== BASE_INTERVAL && (
+          <label>
+            Candles
+            <select
+              value={effectiveSource}
+              disabled={isDerivedInterval}
+              onChange={(e) => setCandleSource(e.target.value as CandleSource)}
+            >
+              <option value="stored">Exchange</option>
+              <option value="derived">From {BASE_INTERVAL}</option>
+            </select>
+          </label>
+        )}
+
+        <label>
+          History
+          <select value={historyPreset} onChange={(e) => setHistoryPreset(e.target.value as HistoryPreset)}>
+            {HISTORY_PRESETS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {historyPreset === "custom" && (
+          <>
+            <label>
+              From
+              <input type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} />
+            </label>
+            <label>
+              To
+              <input type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} />
+            </label>
+          </>
+        )}
+
+        <button
+          onClick={() => runAction(onSync())}
+          disabled={syncing || !providerServesSyncInterval}
+          title={providerServesSyncInterval ? undefined : `${providerInfo?.name} has no ${syncInterval} candles`}
+        >
           {syncing ? "Syncing..." : "Sync Missing Data"}
         </button>
+        <button onClick={() => runAction(onSync("repair"))} disabled={syncing || gaps.length === 0 || !providerServesSyncInterval}>
+          Repair Gaps{gaps.length > 0 ? ` (${gaps.length})` : ""}
+        </button>
+        {syncing && <button onClick={() => runAction(onCancelSync())}>Cancel Sync</button>}
+        {syncJob && (
+          <div className="sync-progress" title={syncJob.error ?? undefined}>
+            <div className="sync-progress-bar">
+              <div className="sync-progress-fill" style={{ width: `${(syncJobProgress(syncJob) * 100).toFixed(1)}%` }} />
+            </div>
+            <span className="muted">
+              {syncJob.mode === "repair" ? "repair " : ""}
+              {syncJob.status} · {syncJob.pagesDone} pages · {syncJob.candlesInserted} candles
+              {syncJob.anomalies ? ` · ${syncJob.anomalies} anomalies` : ""}
+              {syncing && ` · at ${new Date(syncJob.cursor).toLocaleDateString()}`}
+            </span>
+          </div>
+        )}
+
+        <button className={showSchedules ? "active" : ""} onClick={() => setShowSchedules((v) => !v)}>
+          Auto-sync
+        </button>
 
         <label>
           EMA periods
@@ -1614,6 +3093,134 @@ export default function App() {
         <button onClick={onApplyEma}>Apply EMA</button>
       </div>
 
+      {showSchedules && (
+        <div className="schedules-panel">
+          <div className="controls-row">
+            <label>
+              Cron (UTC)
+              <input value={scheduleCron} onChange={(e) => setScheduleCron(e.target.value)} placeholder={DEFAULT_SCHEDULE_CRON} />
+            </label>
+            <button onClick={() => void onAddSchedule()} disabled={!providerServesSyncInterval || scheduleCron.trim() === ""}>
+              Schedule {symbol} {syncInterval}
+            </button>
+            {scheduleError && <span className="schedule-error">{scheduleError}</span>}
+          </div>
+          {schedules.length === 0 ? (
+            <span className="muted">No pairs are synced automatically yet.</span>
+          ) : (
+            <table className="schedules-table">
+              <thead>
+                <tr>
+                  <th>Pair</th>
+                  <th>Cron (UTC)</th>
+                  <th>Enabled</th>
+                  <th>Next run</th>
+                  <th>Last run</th>
+                  <th>Result</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((s) => (
+                  <tr key={s.id}>
+                    <td>
+                      {s.symbol} {s.interval}
+                      <span className="muted">
+                        {" "}
+                        {s.provider} {s.market}
+                      </span>
+                    </td>
+                    <td>
+                      <input
+                        key={s.cron}
+                        defaultValue={s.cron}
+                        onBlur={(e) => {
+                          if (e.target.value.trim() !== s.cron) {
+                            void onUpdateSchedule(s.id, { cron: e.target.value });
+                          }
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.currentTarget.blur();
+                          }
+                        }}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={s.enabled}
+                        onChange={(e) => void onUpdateSchedule(s.id, { enabled: e.target.checked })}
+                      />
+                    </td>
+                    <td>{s.enabled && s.nextRunAt ? new Date(s.nextRunAt).toLocaleString() : "-"}</td>
+                    <td>{s.lastRunAt ? new Date(s.lastRunAt).toLocaleString() : "never"}</td>
+                    <td title={s.lastError ?? undefined}>
+                      {s.lastResult ? SCHEDULE_RESULT_LABELS[s.lastResult] : "-"}
+                      {s.lastJobStatus && <span className="muted"> · job {s.lastJobStatus}</span>}
+                    </td>
+                    <td>
+                      <button onClick={() => void onRunSchedule(s.id)}>Run now</button>
+                      <button onClick={() => void onDeleteSchedule(s.id)}>Remove</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div className="controls-row">
+        <label>
+          Import candles ({symbol} {interval})
+          <input
+            type="file"
+            multiple
+            accept=".zip,.csv,text/csv,application/zip"
+            onChange={(e) => setImportFiles(Array.from(e.target.files ?? []))}
+          />
+        </label>
+        <label>
+          Format
+          <select value={importFormat} onChange={(e) => setImportFormat(e.target.value as ImportFormat)}>
+            <option value="binance">Binance kline archive</option>
+            <option value="generic">Generic OHLCV CSV</option>
+          </select>
+        </label>
+        {importFormat === "generic" && (
+          <label>
+            Column mapping
+            <input
+              value={importMapping}
+              onChange={(e) => setImportMapping(e.target.value)}
+              placeholder="openTime=timestamp,volume=vol"
+            />
+          </label>
+        )}
+        <button
+          onClick={() => runAction(onImport())}
+          disabled={importing || importFiles.length === 0 || DERIVED_INTERVALS.includes(interval)}
+        >
+          {importing ? "Importing..." : "Import"}
+        </button>
+        {importResult && (
+          <span className="muted" title={importResult.errors.map((e) => `${e.file}:${e.line} ${e.message}`).join("\n")}>
+            {importResult.inserted} new / {importResult.valid} valid / {importResult.rejected} rejected rows
+          </span>
+        )}
+
+        <label>
+          Export
+          <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="parquet">Parquet</option>
+          </select>
+        </label>
+        <button onClick={onExport}>Download</button>
+      </div>
+
       <div className="controls-row">
         <button className={tool === "replay-start" ? "active" : ""} onClick={() => setTool("replay-start")}>
           Set Replay Start
@@ -1623,7 +3230,7 @@ export default function App() {
           <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
             {SPEEDS.map((s) => (
               <option key={s} value={s}>
-                {s}x
+                {intrabar && interval !== BASE_INTERVAL ? `${s} sub-bars/s` : `${s}x`}
               </option>
             ))}
           </select>
@@ -1634,14 +3241,263 @@ export default function App() {
         <button className={autoFollow ? "active" : ""} onClick={() => setAutoFollow((prev) => !prev)}>
           Auto-follow: {autoFollow ? "On" : "Off"}
         </button>
+        <button
+          className={intrabar ? "active" : ""}
+          onClick={() => setIntrabar((prev) => !prev)}
+          disabled={interval === BASE_INTERVAL}
+          title={`Grow each candle from stored ${BASE_INTERVAL} sub-bars instead of revealing it whole`}
+        >
+          Intrabar: {intrabar ? "On" : "Off"}
+        </button>
         <button className={showMondayLevels ? "active" : ""} onClick={() => setShowMondayLevels((prev) => !prev)}>
           Monday High/Low: {showMondayLevels ? "On" : "Off"}
         </button>
+        <button
+          className={showQuality ? "active" : ""}
+          onClick={() => setShowQuality((prev) => !prev)}
+          disabled={effectiveSource !== "stored"}
+          title="Mark candles that fail the data quality checks"
+        >
+          Data Quality: {showQuality ? "On" : "Off"}
+        </button>
+        <button className={showVolume ? "active" : ""} onClick={() => setShowVolume((prev) => !prev)}>
+          Volume: {showVolume ? "On" : "Off"}
+        </button>
+        <button
+          className={showTakerDelta ? "active" : ""}
+          onClick={() => setShowTakerDelta((prev) => !prev)}
+          disabled={!hasTradeStats}
+          title="Taker buy volume minus taker sell volume per candle"
+        >
+          Taker Delta: {showTakerDelta ? "On" : "Off"}
+        </button>
+        <button className={showFunding ? "active" : ""} onClick={() => setShowFunding((prev) => !prev)} disabled={!isPerp}>
+          Funding: {showFunding ? "On" : "Off"}
+        </button>
+        <button
+          className={showOpenInterest ? "active" : ""}
+          onClick={() => setShowOpenInterest((prev) => !prev)}
+          disabled={!isPerp}
+        >
+          Open Interest: {showOpenInterest ? "On" : "Off"}
+        </button>
         <button onClick={onResetReplay} disabled={!isReplayPrepared && !isReplayInProgress}>
           Reset
         </button>
+        <button className={showTrading ? "active" : ""} onClick={() => setShowTrading((prev) => !prev)}>
+          Paper Trading: {showTrading ? "On" : "Off"}
+        </button>
+        <button className={showSessions ? "active" : ""} onClick={() => setShowSessions((prev) => !prev)}>
+          Sessions
+        </button>
+        <button
+          className={liveEnabled ? "active" : ""}
+          onClick={() => setLiveEnabled((prev) => !prev)}
+          disabled={!canGoLive}
+          title={canGoLive ? "Stream the forming candle once replay reaches the last stored candle" : "Live needs exchange candles up to now"}
+        >
+          Live: {liveEnabled ? "On" : "Off"}
+        </button>
       </div>
 
+      {showTrading && (
+        <div className="trading-panel">
+          <div className="controls-row">
+            <label>
+              Quantity
+              <input value={orderQuantity} onChange={(e) => setOrderQuantity(e.target.value)} inputMode="decimal" />
+            </label>
+            <button className="buy-button" onClick={() => onMarketOrder("buy")} disabled={!replayCandle}>
+              Buy Market
+            </button>
+            <button className="sell-button" onClick={() => onMarketOrder("sell")} disabled={!replayCandle}>
+              Sell Market
+            </button>
+            <button onClick={() => onTrade(flattenPosition)} disabled={!replayCandle || broker.position.quantity === 0}>
+              Close Position
+            </button>
+            <label>
+              Order
+              <select value={ticketType} onChange={(e) => setTicketType(e.target.value as TicketType)}>
+                <option value="limit">Limit</option>
+                <option value="stop">Stop</option>
+                <option value="oco">OCO (limit + stop)</option>
+              </select>
+            </label>
+            <label>
+              {ticketType === "oco" ? "Limit price" : "Price"}
+              <input value={ticketPrice} onChange={(e) => setTicketPrice(e.target.value)} inputMode="decimal" />
+            </label>
+            {ticketType === "oco" && (
+              <label>
+                Stop price
+                <input value={ticketStopPrice} onChange={(e) => setTicketStopPrice(e.target.value)} inputMode="decimal" />
+              </label>
+            )}
+            <button className="buy-button" onClick={() => onPlaceTicket("buy")} disabled={!replayCandle}>
+              Place Buy
+            </button>
+            <button className="sell-button" onClick={() => onPlaceTicket("sell")} disabled={!replayCandle}>
+              Place Sell
+            </button>
+          </div>
+          <div className="status-row">
+            <span>Balance: {formatMoney(broker.balance)}</span>
+            {replayCandle && <span>Equity: {formatMoney(equity(broker, replayCandle.close))}</span>}
+            <span>
+              Position:{" "}
+              {broker.position.quantity === 0
+                ? "flat"
+                : `${broker.position.quantity > 0 ? "long" : "short"} ${formatQuantity(Math.abs(broker.position.quantity))} @ ${broker.position.averagePrice.toFixed(pricePrecision)}`}
+            </span>
+            {replayCandle && <span>Unrealized: {formatMoney(unrealizedPnl(broker, replayCandle.close))}</span>}
+            <span>Realized: {formatMoney(broker.realizedPnl)}</span>
+            <span>Fees: {formatMoney(broker.feesPaid)}</span>
+            {!replayCandle && <span className="muted">Start a replay to trade against the candles it reveals.</span>}
+          </div>
+          {broker.orders.length > 0 && (
+            <table className="trading-table">
+              <thead>
+                <tr>
+                  <th>Order</th>
+                  <th>Quantity</th>
+                  <th>Price</th>
+                  <th>Placed</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {broker.orders.map((o) => (
+                  <tr key={o.id}>
+                    <td>
+                      {o.side} {o.type}
+                      {o.ocoGroup !== null && <span className="muted"> OCO #{o.ocoGroup}</span>}
+                    </td>
+                    <td>{formatQuantity(o.quantity)}</td>
+                    <td>{o.price.toFixed(pricePrecision)}</td>
+                    <td>{new Date(o.placedAt).toLocaleString()}</td>
+                    <td>
+                      <button onClick={() => setBroker((prev) => cancelOrder(prev, o.id))}>Cancel</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {broker.fills.length > 0 && (
+            <table className="trading-table">
+              <thead>
+                <tr>
+                  <th>Fill</th>
+                  <th>Quantity</th>
+                  <th>Price</th>
+                  <th>Fee</th>
+                  <th>Realized</th>
+                  <th>Candle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {broker.fills
+                  .slice(-10)
+                  .reverse()
+                  .map((f) => (
+                    <tr key={f.id}>
+                      <td>
+                        {f.side} {f.type}
+                      </td>
+                      <td>{formatQuantity(f.quantity)}</td>
+                      <td>{f.price.toFixed(pricePrecision)}</td>
+                      <td>{formatMoney(f.fee)}</td>
+                      <td>{formatMoney(f.realizedPnl)}</td>
+                      <td>{new Date(f.time).toLocaleString()}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+          <div className="controls-row">
+            <label>
+              Initial balance
+              <input value={paperBalanceInput} onChange={(e) => setPaperBalanceInput(e.target.value)} inputMode="decimal" />
+            </label>
+            <label>
+              Fee %
+              <input value={paperFeeInput} onChange={(e) => setPaperFeeInput(e.target.value)} inputMode="decimal" />
+            </label>
+            <label>
+              Slippage %
+              <input value={paperSlippageInput} onChange={(e) => setPaperSlippageInput(e.target.value)} inputMode="decimal" />
+            </label>
+            <button onClick={onResetPaperAccount}>Reset Account</button>
+          </div>
+        </div>
+      )}
+
+      {showSessions && (
+        <div className="sessions-panel">
+          <div className="controls-row">
+            <label>
+              Name
+              <input value={sessionName} onChange={(e) => setSessionName(e.target.value)} placeholder={`${symbol} ${interval}`} />
+            </label>
+            <button onClick={() => runAction(onSaveSession())} disabled={replayStartTime === null}>
+              Save Replay as Session
+            </button>
+            {activeSession && <span className="muted">Progress is saved to "{activeSession.name}"</span>}
+          </div>
+          {replaySessions.length === 0 ? (
+            <span className="muted">No saved sessions yet. Set a replay start, then save it here.</span>
+          ) : (
+            <table className="sessions-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Chart</th>
+                  <th>Start</th>
+                  <th>Reached</th>
+                  <th>Last saved</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {replaySessions.map((s) => (
+                  <tr key={s.id} className={s.id === activeSessionId ? "active" : ""}>
+                    <td>
+                      <input
+                        key={s.name}
+                        defaultValue={s.name}
+                        onBlur={(e) => runAction(onRenameSession(s, e.target.value))}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.currentTarget.blur();
+                          }
+                        }}
+                      />
+                    </td>
+                    <td>
+                      {s.symbol} {s.interval}
+                      <span className="muted">
+                        {" "}
+                        {s.provider} {s.market}
+                      </span>
+                    </td>
+                    <td>{new Date(s.startTime).toLocaleString()}</td>
+                    <td>{new Date(s.currentTime).toLocaleString()}</td>
+                    <td>{new Date(s.updatedAt).toLocaleString()}</td>
+                    <td>
+                      <button onClick={() => onResumeSession(s)} disabled={loading}>
+                        Resume
+                      </button>
+                      <button onClick={() => runAction(onDeleteSession(s.id))}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       <div className="controls-row">
         <button className={tool === "none" ? "active" : ""} onClick={() => setTool("none")}>
           Cursor
@@ -1671,16 +3527,24 @@ export default function App() {
 
       <div className="status-row">
         {loading ? "Loading candles..." : `Candles loaded: ${candles.length}`}
+        {gaps.length > 0 && (
+          <span>
+            Gaps: {gaps.length} ({gaps.reduce((sum, g) => sum + g.missing, 0)} missing candles)
+          </span>
+        )}
         {isReplayPrepared && replayStartIndex !== null && (
           <span>
             Replay start: {new Date(candles[replayStartIndex].openTime).toLocaleString()}
           </span>
         )}
-        {isReplayInProgress && currentReplayIndex !== null && (
-          <span>
-            Replay candle: {currentReplayIndex + 1} / {candles.length}
+        {replayTime !== null && <span>Replay time: {new Date(replayTime).toLocaleString()}</span>}
+        {qualityReport && (
+          <span title={qualityReport.anomalies.map((a) => `${new Date(a.fromTime).toISOString()} ${a.detail}`).join("\n")}>
+            Quality: {qualityReport.total === 0 ? "no anomalies" : `${qualityReport.total} anomalies`} in {qualityReport.checked} candles
+            {qualityReport.truncated && " (first 1000 marked)"}
           </span>
         )}
+        {liveStatus && <span>{liveStatus === "live" ? "Live" : liveStatus === "connecting" ? "Connecting live..." : "Live reconnecting..."}</span>}
       </div>
 
       <div className="chart-wrap" ref={chartWrapRef}>
@@ -1689,9 +3553,9 @@ export default function App() {
           ref={canvasRef}
           className="overlay-canvas"
           style={{ pointerEvents: isCanvasInteractive ? "auto" : "none" }}
-          onClick={(e) => void onCanvasClick(e)}
+          onClick={(e) => runAction(onCanvasClick(e))}
           onMouseDown={onCanvasMouseDown}
-          onMouseUp={() => void onCanvasMouseUp()}
+          onMouseUp={() => runAction(onCanvasMouseUp())}
           onMouseMove={onCanvasMove}
           onMouseLeave={onCanvasLeave}
         />
@@ -1759,12 +3623,30 @@ export default function App() {
             {(selectedDrawing.type === "longpos" || selectedDrawing.type === "shortpos") && (
               <span className="toolbar-note">Drag blue handles on chart to change TP, SL and time</span>
             )}
-            <button className="delete-drawing-btn" onClick={() => void onDeleteSelectedDrawing()} title="Delete selected drawing">
+            {selectedOutcome && selectedOutcome.exitPrice !== null && (
+              <span className="toolbar-note">
+                {POSITION_RESULT_LABELS[selectedOutcome.result]} at {selectedOutcome.exitPrice.toFixed(pricePrecision)}
+                {selectedOutcome.barsHeld !== null &&
+                  ` after ${selectedOutcome.barsHeld} ${selectedOutcome.interval ? `${selectedOutcome.interval} ` : ""}bars`}
+              </span>
+            )}
+            <button className="delete-drawing-btn" onClick={() => runAction(onDeleteSelectedDrawing())} title="Delete selected drawing">
               🗑
             </button>
           </div>
         )}
       </div>
+
+      {toasts.length > 0 && (
+        <div className="toasts" role="alert">
+          {toasts.map((t) => (
+            <div key={t.id} className="toast" onClick={() => dismissToast(t.id)} title="Dismiss">
+              <span>{t.message}</span>
+              {t.requestId && <span className="toast-request-id">Request {t.requestId}</span>}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
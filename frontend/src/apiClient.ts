@@ -0,0 +1,142 @@
+import axios from "axios";
+import {
+  ApiErrorCode,
+  apiErrorSchema,
+  buildPath,
+  Endpoint,
+  EndpointBody,
+  EndpointName,
+  EndpointQuery,
+  EndpointResponse,
+  endpoints,
+  Endpoints,
+  PathParams,
+} from "../../shared/api";
+
+export const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3001";
+
+const http = axios.create({ baseURL: API_URL });
+
+/**
+ * A request the backend answered with an error body, or that never got an
+ * answer (`code` "network"). `requestId` matches the backend's log lines.
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly code: ApiErrorCode | "network",
+    readonly requestId: string | null
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+function toApiRequestError(error: unknown): unknown {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return error;
+  }
+  if (!error.response) {
+    return new ApiRequestError(`Backend unreachable: ${error.message}`, null, "network", null);
+  }
+  const body = apiErrorSchema.safeParse(error.response.data);
+  if (!body.success) {
+    return new ApiRequestError(error.message, error.response.status, "internal", null);
+  }
+  const { message, code, requestId } = body.data.error;
+  return new ApiRequestError(message, error.response.status, code, requestId);
+}
+
+type IfPresent<T, Options> = [T] extends [never] ? unknown : Options;
+
+export type CallOptions<E extends Endpoint> = { signal?: AbortSignal } & IfPresent<
+  keyof PathParams<E>,
+  { params: PathParams<E> }
+> &
+  IfPresent<EndpointQuery<E>, { query: EndpointQuery<E> }> &
+  IfPresent<EndpointBody<E>, { body: EndpointBody<E> }> &
+  (E extends { upload: true } ? { upload: Blob } : unknown);
+
+type CallArgs<E extends Endpoint> = object extends CallOptions<E> ? [options?: CallOptions<E>] : [options: CallOptions<E>];
+
+type Parts = {
+  params?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  upload?: Blob;
+  signal?: AbortSignal;
+};
+
+// Absolute URL of an endpoint, for EventSource and downloads that bypass axios.
+export function apiUrl<E extends Endpoint>(endpoint: E, options: Omit<CallOptions<E>, "signal" | "body" | "upload">): string {
+  const { params, query } = options as Parts;
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) {
+      search.set(key, String(value));
+    }
+  }
+  const qs = search.toString();
+  return `${API_URL}${buildPath(endpoint.path, params)}${qs ? `?${qs}` : ""}`;
+}
+
+/**
+ * Calls an endpoint of the shared contract. In development every JSON
+ * response is parsed with the endpoint's schema, so a backend that drifts
+ * from the contract fails loudly at the call site.
+ */
+export async function callApi<E extends Endpoint>(endpoint: E, ...[options]: CallArgs<E>): Promise<EndpointResponse<E>> {
+  const { params, query, body, upload, signal } = (options ?? {}) as Parts;
+  const url = buildPath(endpoint.path, params);
+
+  const res = await http
+    .request({
+      method: endpoint.method,
+      url,
+      params: query,
+      data: upload ?? body,
+      headers: upload ? { "Content-Type": "application/octet-stream" } : undefined,
+      signal,
+    })
+    .catch((error: unknown) => {
+      throw toApiRequestError(error);
+    });
+
+  if (import.meta.env.DEV && endpoint.response) {
+    assertContract(endpoint.response, res.data, `${endpoint.method.toUpperCase()} ${url}`);
+  }
+
+  return res.data as EndpointResponse<E>;
+}
+
+type ContractSchema = NonNullable<Endpoint["response"]>;
+
+function assertContract(schema: ContractSchema, data: unknown, source: string): void {
+  const checked = schema.safeParse(data);
+  if (!checked.success) {
+    const issues = checked.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ");
+    throw new Error(`${source} does not match the API contract: ${issues}`);
+  }
+}
+
+/**
+ * Parses a frame of a stream that bypasses axios (SSE, WebSocket). Like call(),
+ * it is checked against the contract in development only.
+ */
+export function parseFrame<T>(schema: ContractSchema, raw: string, source: string): T {
+  const data: unknown = JSON.parse(raw);
+  if (import.meta.env.DEV) {
+    assertContract(schema, data, source);
+  }
+  return data as T;
+}
+
+type ApiClient = {
+  [K in EndpointName]: (...args: CallArgs<Endpoints[K]>) => Promise<EndpointResponse<Endpoints[K]>>;
+};
+
+// One method per contract endpoint, e.g. api.listDrawings({ query: { symbol } }).
+export const api = Object.fromEntries(
+  Object.entries(endpoints).map(([name, endpoint]) => [name, (options?: object) => callApi(endpoint as Endpoint, options as never)])
+) as unknown as ApiClient;
@@ -0,0 +1,310 @@
+// Simulated broker for bar replay. Orders are filled against each newly
+// revealed candle; state is immutable so it can live in React state as-is.
+// One netted position per chart: buying while short reduces the short first.
+
+import { Candle } from "../../shared/api";
+import { candleEnd } from "./replayClock";
+
+export type OrderSide = "buy" | "sell";
+export type OrderType = "market" | "limit" | "stop";
+
+export type BrokerSettings = {
+  initialBalance: number;
+  // Fraction of the notional charged on every fill, e.g. 0.001 for 0.1%.
+  feeRate: number;
+  // Fraction of the price market and stop fills move against the trader.
+  slippage: number;
+};
+
+export type OrderRequest = {
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  // Limit or stop price; ignored for market orders.
+  price?: number;
+};
+
+export type Order = {
+  id: number;
+  side: OrderSide;
+  type: Exclude<OrderType, "market">;
+  quantity: number;
+  price: number;
+  // Orders sharing a group are one-cancels-the-other.
+  ocoGroup: number | null;
+  // Replay moment the order was placed at; it can fill from candles opening at or after it.
+  placedAt: number;
+};
+
+export type Fill = {
+  id: number;
+  orderId: number | null;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  price: number;
+  fee: number;
+  realizedPnl: number;
+  // Open time of the candle the fill happened in.
+  time: number;
+};
+
+// `quantity` is signed: positive long, negative short, 0 flat.
+export type Position = {
+  quantity: number;
+  averagePrice: number;
+};
+
+export type BrokerState = {
+  settings: BrokerSettings;
+  // Initial balance plus realized P&L minus fees.
+  balance: number;
+  position: Position;
+  orders: Order[];
+  fills: Fill[];
+  realizedPnl: number;
+  feesPaid: number;
+  // End of the last candle orders were checked against.
+  lastTime: number | null;
+  nextId: number;
+};
+
+export const DEFAULT_BROKER_SETTINGS: BrokerSettings = {
+  initialBalance: 10000,
+  feeRate: 0.001,
+  slippage: 0.0005,
+};
+
+const FLAT: Position = { quantity: 0, averagePrice: 0 };
+// Quantities closer to zero than this are float noise from partial closes.
+const QUANTITY_EPSILON = 1e-12;
+
+export function createBroker(settings: BrokerSettings): BrokerState {
+  return {
+    settings,
+    balance: settings.initialBalance,
+    position: FLAT,
+    orders: [],
+    fills: [],
+    realizedPnl: 0,
+    feesPaid: 0,
+    lastTime: null,
+    nextId: 1,
+  };
+}
+
+export function unrealizedPnl(state: BrokerState, price: number): number {
+  return state.position.quantity * (price - state.position.averagePrice);
+}
+
+export function equity(state: BrokerState, price: number): number {
+  return state.balance + unrealizedPnl(state, price);
+}
+
+function withSlippage(side: OrderSide, price: number, slippage: number): number {
+  return side === "buy" ? price * (1 + slippage) : price * (1 - slippage);
+}
+
+// Books a fill into the netted position, realizing P&L on whatever part closes it.
+function applyFill(
+  state: BrokerState,
+  fill: { orderId: number | null; side: OrderSide; type: OrderType; quantity: number; price: number; time: number }
+): BrokerState {
+  const { quantity: held, averagePrice } = state.position;
+  const signed = fill.side === "buy" ? fill.quantity : -fill.quantity;
+  const fee = fill.quantity * fill.price * state.settings.feeRate;
+
+  let realized = 0;
+  let next: Position;
+  if (held === 0 || Math.sign(held) === Math.sign(signed)) {
+    const quantity = held + signed;
+    next = { quantity, averagePrice: (Math.abs(held) * averagePrice + fill.quantity * fill.price) / Math.abs(quantity) };
+  } else {
+    const closed = Math.min(Math.abs(held), fill.quantity);
+    realized = closed * (fill.price - averagePrice) * Math.sign(held);
+    const quantity = held + signed;
+    if (Math.abs(quantity) < QUANTITY_EPSILON) {
+      next = FLAT;
+    } else if (Math.sign(quantity) !== Math.sign(held)) {
+      // Flipped: the remainder opens a new position at the fill price.
+      next = { quantity, averagePrice: fill.price };
+    } else {
+      next = { quantity, averagePrice };
+    }
+  }
+
+  return {
+    ...state,
+    balance: state.balance + realized - fee,
+    position: next,
+    realizedPnl: state.realizedPnl + realized,
+    feesPaid: state.feesPaid + fee,
+    fills: [...state.fills, { id: state.nextId, ...fill, fee, realizedPnl: realized }],
+    nextId: state.nextId + 1,
+  };
+}
+
+function validate(request: OrderRequest): void {
+  if (!(request.quantity > 0)) {
+    throw new Error("Order quantity must be positive");
+  }
+  if (request.type !== "market" && !(request.price !== undefined && request.price > 0)) {
+    throw new Error(`A ${request.type} order needs a positive price`);
+  }
+}
+
+/**
+ * Places an order while `candle` is the last revealed one. Market orders fill
+ * right away at its close (plus slippage); limit and stop orders wait for the
+ * candles revealed after it.
+ */
+export function placeOrder(state: BrokerState, request: OrderRequest, candle: Candle): BrokerState {
+  validate(request);
+  if (request.type === "market") {
+    return applyFill(state, {
+      orderId: null,
+      side: request.side,
+      type: "market",
+      quantity: request.quantity,
+      price: withSlippage(request.side, candle.close, state.settings.slippage),
+      time: candle.openTime,
+    });
+  }
+  const order: Order = {
+    id: state.nextId,
+    side: request.side,
+    type: request.type,
+    quantity: request.quantity,
+    price: request.price as number,
+    ocoGroup: null,
+    placedAt: candleEnd(candle),
+  };
+  return { ...state, orders: [...state.orders, order], nextId: state.nextId + 1 };
+}
+
+// Two resting orders where the first to fill cancels the other, e.g. a take profit and a stop loss.
+export function placeOcoOrder(state: BrokerState, legs: [OrderRequest, OrderRequest], candle: Candle): BrokerState {
+  for (const leg of legs) {
+    validate(leg);
+    if (leg.type === "market") {
+      throw new Error("OCO legs must be limit or stop orders");
+    }
+  }
+  const group = state.nextId;
+  const orders: Order[] = legs.map((leg, i) => ({
+    id: group + i,
+    side: leg.side,
+    type: leg.type as Order["type"],
+    quantity: leg.quantity,
+    price: leg.price as number,
+    ocoGroup: group,
+    placedAt: candleEnd(candle),
+  }));
+  return { ...state, orders: [...state.orders, ...orders], nextId: group + orders.length };
+}
+
+export function cancelOrder(state: BrokerState, id: number): BrokerState {
+  return { ...state, orders: state.orders.filter((o) => o.id !== id) };
+}
+
+// Closes the whole position at market.
+export function flattenPosition(state: BrokerState, candle: Candle): BrokerState {
+  const { quantity } = state.position;
+  if (quantity === 0) {
+    return state;
+  }
+  return placeOrder(state, { side: quantity > 0 ? "sell" : "buy", type: "market", quantity: Math.abs(quantity) }, candle);
+}
+
+/**
+ * The route the price is assumed to take within one candle: from the open to
+ * the nearer extreme, then the other extreme, then the close.
+ */
+function pricePath(candle: Candle): number[] {
+  const highFirst = candle.high - candle.open < candle.open - candle.low;
+  return highFirst
+    ? [candle.open, candle.high, candle.low, candle.close]
+    : [candle.open, candle.low, candle.high, candle.close];
+}
+
+/**
+ * Where along the path the order triggers (0 = open, 3 = close) and at what
+ * price. An order the open already gapped through triggers at the open.
+ */
+function triggerOf(order: Order, path: number[]): { at: number; price: number } | null {
+  // Buy limits and sell stops wait for the price to fall to their level; the others for it to rise.
+  const falls = (order.side === "buy") === (order.type === "limit");
+  const reached = (price: number) => (falls ? price <= order.price : price >= order.price);
+
+  if (reached(path[0])) {
+    return { at: 0, price: path[0] };
+  }
+  for (let i = 1; i < path.length; i += 1) {
+    if (reached(path[i])) {
+      const from = path[i - 1];
+      return { at: i - 1 + (from - order.price) / (from - path[i]), price: order.price };
+    }
+  }
+  return null;
+}
+
+// Fills the orders `candle` triggers, in the order its price path reaches them.
+function processCandle(state: BrokerState, candle: Candle): BrokerState {
+  const path = pricePath(candle);
+  const triggered = state.orders
+    .filter((o) => o.placedAt <= candle.openTime)
+    .map((order) => ({ order, trigger: triggerOf(order, path) }))
+    .filter((t): t is { order: Order; trigger: { at: number; price: number } } => t.trigger !== null)
+    .sort((a, b) => a.trigger.at - b.trigger.at);
+
+  let next = state;
+  for (const { order, trigger } of triggered) {
+    // An earlier fill in this candle may have cancelled its OCO sibling.
+    if (!next.orders.some((o) => o.id === order.id)) {
+      continue;
+    }
+    next = {
+      ...next,
+      orders: next.orders.filter((o) => o.id !== order.id && (order.ocoGroup === null || o.ocoGroup !== order.ocoGroup)),
+    };
+    next = applyFill(next, {
+      orderId: order.id,
+      side: order.side,
+      type: order.type,
+      quantity: order.quantity,
+      price: order.type === "stop" ? withSlippage(order.side, trigger.price, next.settings.slippage) : trigger.price,
+      time: candle.openTime,
+    });
+  }
+  return next;
+}
+
+/**
+ * Checks resting orders against every candle that ends after the last call's.
+ * A candle still forming is checked again as it grows, and candles of another
+ * interval covering time already checked are skipped. The first call only
+ * records where replay stands.
+ */
+export function advanceBroker(state: BrokerState, candles: Candle[]): BrokerState {
+  const last = candles[candles.length - 1];
+  if (!last) {
+    return state;
+  }
+  if (state.lastTime === null) {
+    return { ...state, lastTime: candleEnd(last) };
+  }
+  if (candleEnd(last) <= state.lastTime) {
+    return state;
+  }
+
+  let first = candles.length;
+  while (first > 0 && candleEnd(candles[first - 1]) > state.lastTime) {
+    first -= 1;
+  }
+
+  let next = state;
+  for (const candle of candles.slice(first)) {
+    next = processCandle(next, candle);
+  }
+  return { ...next, lastTime: candleEnd(last) };
+}
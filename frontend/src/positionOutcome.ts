@@ -0,0 +1,96 @@
+// Resolves long/short position drawings against candles, so replay can show
+// whether a planned trade would have won. Points are [entry, stop, target, end].
+
+import { Candle, ChartInterval, Drawing, PositionOutcome, PositionResult } from "../../shared/api";
+
+export const POSITION_RESULT_LABELS: Record<PositionResult, string> = {
+  open: "Open",
+  take_profit: "TP hit",
+  stop_loss: "SL hit",
+  expired: "Expired",
+  missed: "Missed",
+};
+
+/**
+ * Walks `candles` (complete candles of `interval`) from the drawing's entry time. The position opens on the
+ * first candle whose range contains the entry price and is checked for the
+ * stop and target from the next candle on; a candle that reaches both counts
+ * as a stop. It expires at the close of the candle under the time handle.
+ *
+ * Returns null while the entry has not been reached, and the stored outcome
+ * when `candles` do not go back as far as the entry.
+ */
+export function resolvePosition(drawing: Drawing, candles: Candle[], interval: ChartInterval): PositionOutcome | null {
+  const [entry, stop, target, end] = drawing.points;
+  if (!end || candles.length === 0 || candles[0].openTime > entry.time) {
+    return drawing.outcome;
+  }
+
+  const long = drawing.type === "longpos";
+  const risk = long ? entry.price - stop.price : stop.price - entry.price;
+  const ended = candles[candles.length - 1].openTime >= end.time;
+
+  const entryIndex = candles.findIndex(
+    (c) => c.openTime >= entry.time && c.openTime <= end.time && c.low <= entry.price && entry.price <= c.high
+  );
+  if (entryIndex < 0) {
+    return ended
+      ? { result: "missed", entryTime: null, exitTime: null, exitPrice: null, barsHeld: null, interval, rMultiple: null }
+      : null;
+  }
+
+  const entryTime = candles[entryIndex].openTime;
+  const exit = (result: PositionResult, index: number, price: number): PositionOutcome => ({
+    result,
+    entryTime,
+    exitTime: candles[index].openTime,
+    exitPrice: price,
+    barsHeld: index - entryIndex,
+    interval,
+    rMultiple: risk > 0 ? (long ? price - entry.price : entry.price - price) / risk : null,
+  });
+
+  let held = entryIndex;
+  for (let i = entryIndex + 1; i < candles.length && candles[i].openTime <= end.time; i += 1) {
+    const c = candles[i];
+    // A candle that opens beyond a level fills there, not at the level.
+    if (long ? c.open <= stop.price : c.open >= stop.price) {
+      return exit("stop_loss", i, c.open);
+    }
+    if (long ? c.open >= target.price : c.open <= target.price) {
+      return exit("take_profit", i, c.open);
+    }
+    if (long ? c.low <= stop.price : c.high >= stop.price) {
+      return exit("stop_loss", i, stop.price);
+    }
+    if (long ? c.high >= target.price : c.low <= target.price) {
+      return exit("take_profit", i, target.price);
+    }
+    held = i;
+  }
+
+  if (ended) {
+    return exit("expired", held, candles[held].close);
+  }
+  return { result: "open", entryTime, exitTime: null, exitPrice: null, barsHeld: null, interval, rMultiple: null };
+}
+
+// Taken profit, stopped out, expired or missed: no later candle can change it.
+export function isSettled(outcome: PositionOutcome | null): boolean {
+  return outcome !== null && outcome.result !== "open";
+}
+
+export function sameOutcome(a: PositionOutcome | null, b: PositionOutcome | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return (
+    a.result === b.result &&
+    a.entryTime === b.entryTime &&
+    a.exitTime === b.exitTime &&
+    a.exitPrice === b.exitPrice &&
+    a.barsHeld === b.barsHeld &&
+    a.interval === b.interval &&
+    a.rMultiple === b.rMultiple
+  );
+}
@@ -0,0 +1,91 @@
+// Bar replay keeps its position as a moment in time rather than a candle
+// index, so it survives interval switches: every candle that opened before the
+// moment is on screen, and the one the moment falls inside is still forming.
+
+import { Candle } from "../../shared/api";
+
+// The moment a candle is complete.
+export function candleEnd(candle: Candle): number {
+  return candle.closeTime + 1;
+}
+
+// Number of candles (oldest first) that opened before `time`.
+export function countOpenedBefore(candles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].openTime < time) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * The moment one replay step after `time`: the end of the candle still
+ * forming at `time`, otherwise the end of the next candle. Null once the last
+ * candle is complete.
+ *
+ * With `subBarMs` (intrabar replay) a step only moves that far into the
+ * forming or next candle, so a higher-interval candle grows one sub-bar at a
+ * time.
+ */
+export function nextReplayTime(candles: Candle[], time: number, subBarMs?: number): number | null {
+  const count = countOpenedBefore(candles, time);
+  const current = candles[count - 1];
+  if (current && candleEnd(current) > time) {
+    return subBarMs ? Math.min(time + subBarMs, candleEnd(current)) : candleEnd(current);
+  }
+  const next = candles[count];
+  if (!next) {
+    return null;
+  }
+  return subBarMs ? Math.min(next.openTime + subBarMs, candleEnd(next)) : candleEnd(next);
+}
+
+function sumOrNull(parts: Candle[], pick: (c: Candle) => number | null): number | null {
+  let total = 0;
+  for (const part of parts) {
+    const value = pick(part);
+    if (value === null) {
+      return null;
+    }
+    total += value;
+  }
+  return total;
+}
+
+/**
+ * `candle` as it looked at `time`, built from the finer candles in `parts`
+ * that opened inside it before then. Null when none did.
+ */
+export function formingCandle(candle: Candle, parts: Candle[], time: number): Candle | null {
+  const inside = parts.filter((p) => p.openTime >= candle.openTime && p.openTime < time && p.openTime <= candle.closeTime);
+  if (inside.length === 0) {
+    return null;
+  }
+
+  let high = inside[0].high;
+  let low = inside[0].low;
+  for (const p of inside) {
+    if (p.high > high) high = p.high;
+    if (p.low < low) low = p.low;
+  }
+
+  return {
+    ...candle,
+    closeTime: time - 1,
+    open: inside[0].open,
+    high,
+    low,
+    close: inside[inside.length - 1].close,
+    volume: inside.reduce((sum, p) => sum + p.volume, 0),
+    quoteVolume: sumOrNull(inside, (p) => p.quoteVolume),
+    trades: sumOrNull(inside, (p) => p.trades),
+    takerBuyBaseVolume: sumOrNull(inside, (p) => p.takerBuyBaseVolume),
+    takerBuyQuoteVolume: sumOrNull(inside, (p) => p.takerBuyQuoteVolume),
+  };
+}
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Candle } from "../../shared/api";
+import { advanceBroker, BrokerState, createBroker, placeOcoOrder, placeOrder } from "../src/paperBroker";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function candle(index: number, open: number, high: number, low: number, close: number): Candle {
+  const openTime = START + index * HOUR_MS;
+  return {
+    provider: "binance",
+    market: "spot",
+    symbol: "BTCUSDT",
+    interval: "1h",
+    openTime,
+    closeTime: openTime + HOUR_MS - 1,
+    open,
+    high,
+    low,
+    close,
+    volume: 1,
+    quoteVolume: null,
+    trades: null,
+    takerBuyBaseVolume: null,
+    takerBuyQuoteVolume: null,
+  };
+}
+
+// Fees and slippage off unless a test is about them, so prices stay round.
+function broker(feeRate = 0, slippage = 0): BrokerState {
+  return createBroker({ initialBalance: 10000, feeRate, slippage });
+}
+
+// A long of 1 bought at 100 on the first candle, with a take profit at 110 and a stop at 95 resting.
+function bracketedLong(): { state: BrokerState; first: Candle } {
+  const first = candle(0, 100, 100, 100, 100);
+  let state = advanceBroker(broker(), [first]);
+  state = placeOrder(state, { side: "buy", type: "market", quantity: 1 }, first);
+  state = placeOcoOrder(
+    state,
+    [
+      { side: "sell", type: "limit", quantity: 1, price: 110 },
+      { side: "sell", type: "stop", quantity: 1, price: 95 },
+    ],
+    first
+  );
+  return { state, first };
+}
+
+describe("paper broker", () => {
+  test("fills the stop first when the low is nearer the open than the high", () => {
+    const { state, first } = bracketedLong();
+
+    // Open 100: the low (94) is 6 away, the high (112) 12, so the path reaches the stop first.
+    const next = advanceBroker(state, [first, candle(1, 100, 112, 94, 105)]);
+
+    assert.deepEqual(
+      next.fills.map((f) => [f.type, f.price]),
+      [
+        ["market", 100],
+        ["stop", 95],
+      ]
+    );
+    assert.equal(next.position.quantity, 0);
+    assert.equal(next.realizedPnl, -5);
+  });
+
+  test("fills the take profit first when the high is nearer the open", () => {
+    const { state, first } = bracketedLong();
+
+    const next = advanceBroker(state, [first, candle(1, 100, 111, 88, 92)]);
+
+    assert.deepEqual(
+      next.fills.map((f) => [f.type, f.price]),
+      [
+        ["market", 100],
+        ["limit", 110],
+      ]
+    );
+    assert.equal(next.realizedPnl, 10);
+  });
+
+  test("cancels the other OCO leg once one fills", () => {
+    const { state, first } = bracketedLong();
+
+    const filled = advanceBroker(state, [first, candle(1, 100, 111, 99, 108)]);
+    assert.equal(filled.orders.length, 0);
+
+    // The stop would have triggered on this candle had it still been resting.
+    const later = advanceBroker(filled, [first, candle(1, 100, 111, 99, 108), candle(2, 108, 108, 80, 85)]);
+    assert.equal(later.fills.length, 2);
+    assert.equal(later.position.quantity, 0);
+  });
+
+  test("fills at the open when the candle gaps through the order", () => {
+    const first = candle(0, 100, 100, 100, 100);
+    let state = advanceBroker(broker(), [first]);
+    state = placeOrder(state, { side: "buy", type: "limit", quantity: 1, price: 95 }, first);
+
+    const next = advanceBroker(state, [first, candle(1, 90, 93, 88, 92)]);
+
+    assert.equal(next.fills[0].price, 90);
+    assert.deepEqual(next.position, { quantity: 1, averagePrice: 90 });
+  });
+
+  test("does not fill a resting order on the candle it was placed on", () => {
+    const first = candle(0, 100, 120, 80, 100);
+    let state = advanceBroker(broker(), [first]);
+    state = placeOrder(state, { side: "buy", type: "limit", quantity: 1, price: 90 }, first);
+
+    assert.equal(advanceBroker(state, [first]).fills.length, 0);
+  });
+
+  test("realizes a partial close, then flips into a short at the fill price", () => {
+    const first = candle(0, 100, 100, 100, 100);
+    let state = placeOrder(broker(0.001), { side: "buy", type: "market", quantity: 2 }, first);
+
+    state = placeOrder(state, { side: "sell", type: "market", quantity: 0.5 }, candle(1, 110, 110, 110, 110));
+    assert.deepEqual(state.position, { quantity: 1.5, averagePrice: 100 });
+    assert.equal(state.realizedPnl, 5);
+
+    state = placeOrder(state, { side: "sell", type: "market", quantity: 3 }, candle(2, 120, 120, 120, 120));
+    assert.deepEqual(state.position, { quantity: -1.5, averagePrice: 120 });
+    // 0.5 closed at +10, then 1.5 at +20.
+    assert.equal(state.realizedPnl, 35);
+    // 0.1% of every notional: 200, 55 and 360.
+    assert.ok(Math.abs(state.feesPaid - 0.615) < 1e-9);
+    assert.ok(Math.abs(state.balance - (10000 + 35 - 0.615)) < 1e-9);
+  });
+
+  test("moves market and stop fills against the trader by the slippage", () => {
+    const first = candle(0, 100, 100, 100, 100);
+    let state = advanceBroker(broker(0, 0.01), [first]);
+    state = placeOrder(state, { side: "buy", type: "market", quantity: 1 }, first);
+    state = placeOrder(state, { side: "sell", type: "stop", quantity: 1, price: 95 }, first);
+
+    const next = advanceBroker(state, [first, candle(1, 100, 101, 90, 92)]);
+
+    assert.deepEqual(
+      next.fills.map((f) => f.price),
+      [101, 95 * 0.99]
+    );
+  });
+});
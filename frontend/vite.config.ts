@@ -3,4 +3,8 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Allow serving ../shared, which lives outside the frontend root.
+    fs: { allow: [".."] },
+  },
 });
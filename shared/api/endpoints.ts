@@ -0,0 +1,308 @@
+// Every HTTP endpoint of the backend with the schemas of its query, body and
+// response. Routes are registered from `path`, and the frontend client builds
+// its requests and result types from the same entries.
+
+import { z } from "zod";
+import {
+  candleExportQuerySchema,
+  candleGapsQuerySchema,
+  candleGapsReportSchema,
+  candleQualityQuerySchema,
+  candleQualityReportSchema,
+  candleSchema,
+  candlesQuerySchema,
+  drawingCreateSchema,
+  drawingSchema,
+  drawingsQuerySchema,
+  drawingUpdateSchema,
+  fundingRateSchema,
+  fundingRatesQuerySchema,
+  healthSchema,
+  importQuerySchema,
+  importReportSchema,
+  openInterestQuerySchema,
+  openInterestSchema,
+  providerInfoSchema,
+  replaySessionCreateSchema,
+  replaySessionSchema,
+  replaySessionUpdateSchema,
+  rollupReportSchema,
+  rollupRequestSchema,
+  symbolCreateSchema,
+  symbolInfoSchema,
+  syncJobSchema,
+  syncJobsQuerySchema,
+  syncRequestSchema,
+  syncScheduleCreateSchema,
+  syncScheduleSchema,
+  syncScheduleUpdateSchema,
+} from "./schemas.js";
+
+export type HttpMethod = "get" | "post" | "put" | "delete";
+
+export type Endpoint = {
+  method: HttpMethod;
+  // Express-style path; `:name` segments are path parameters.
+  path: string;
+  summary: string;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  // The body is an uploaded file rather than JSON.
+  upload?: boolean;
+  // Null for responses without a JSON body (204, file downloads).
+  response: z.ZodTypeAny | null;
+  status?: number;
+  // Content types of file downloads.
+  produces?: readonly string[];
+  // The response is a text/event-stream whose events carry `response`.
+  events?: boolean;
+};
+
+export const endpoints = {
+  health: {
+    method: "get",
+    path: "/api/health",
+    summary: "Database latency, exchange reachability and the last sync of every pair",
+    response: healthSchema,
+  },
+  openApi: {
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "This API as an OpenAPI 3.1 document",
+    response: z.record(z.unknown()),
+  },
+  listProviders: {
+    method: "get",
+    path: "/api/providers",
+    summary: "Market data providers and what they serve",
+    response: z.array(providerInfoSchema),
+  },
+  listSymbols: {
+    method: "get",
+    path: "/api/symbols",
+    summary: "Registered symbols",
+    response: z.array(symbolInfoSchema),
+  },
+  createSymbol: {
+    method: "post",
+    path: "/api/symbols",
+    summary: "Register a symbol, filling missing metadata from the exchange",
+    body: symbolCreateSchema,
+    response: symbolInfoSchema,
+    status: 201,
+  },
+  listCandles: {
+    method: "get",
+    path: "/api/candles",
+    summary: "One page of candles, oldest first",
+    query: candlesQuerySchema,
+    response: z.array(candleSchema),
+  },
+  exportCandles: {
+    method: "get",
+    path: "/api/candles/export",
+    summary: "Download stored candles",
+    query: candleExportQuerySchema,
+    response: null,
+    produces: ["text/csv", "application/json", "application/vnd.apache.parquet"],
+  },
+  materializeRollups: {
+    method: "post",
+    path: "/api/candles/rollups",
+    summary: "Store derived intervals built from base candles",
+    body: rollupRequestSchema,
+    response: rollupReportSchema,
+  },
+  listCandleGaps: {
+    method: "get",
+    path: "/api/candles/gaps",
+    summary: "Missing candle ranges and known exchange gaps",
+    query: candleGapsQuerySchema,
+    response: candleGapsReportSchema,
+  },
+  checkCandleQuality: {
+    method: "get",
+    path: "/api/candles/quality",
+    summary: "Data quality report per stored symbol and interval",
+    query: candleQualityQuerySchema,
+    response: z.array(candleQualityReportSchema),
+  },
+  importCandles: {
+    method: "post",
+    path: "/api/import/candles",
+    summary: "Import a kline CSV or ZIP archive",
+    query: importQuerySchema,
+    upload: true,
+    response: importReportSchema,
+  },
+  startSync: {
+    method: "post",
+    path: "/api/sync",
+    summary: "Start a sync job, or return the pair's running one",
+    body: syncRequestSchema,
+    response: syncJobSchema,
+    status: 202,
+  },
+  listSyncJobs: {
+    method: "get",
+    path: "/api/sync/jobs",
+    summary: "Recent sync jobs",
+    query: syncJobsQuerySchema,
+    response: z.array(syncJobSchema),
+  },
+  getSyncJob: {
+    method: "get",
+    path: "/api/sync/jobs/:id",
+    summary: "One sync job",
+    response: syncJobSchema,
+  },
+  syncJobEvents: {
+    method: "get",
+    path: "/api/sync/jobs/:id/events",
+    summary: "Progress of a sync job as server-sent events",
+    response: syncJobSchema,
+    events: true,
+  },
+  cancelSyncJob: {
+    method: "delete",
+    path: "/api/sync/jobs/:id",
+    summary: "Cancel a sync job",
+    response: syncJobSchema,
+  },
+  listSyncSchedules: {
+    method: "get",
+    path: "/api/sync/schedules",
+    summary: "Auto-sync watchlist",
+    response: z.array(syncScheduleSchema),
+  },
+  createSyncSchedule: {
+    method: "post",
+    path: "/api/sync/schedules",
+    summary: "Add a pair to the auto-sync watchlist",
+    body: syncScheduleCreateSchema,
+    response: syncScheduleSchema,
+    status: 201,
+  },
+  updateSyncSchedule: {
+    method: "put",
+    path: "/api/sync/schedules/:id",
+    summary: "Change the cron expression or enable/disable a schedule",
+    body: syncScheduleUpdateSchema,
+    response: syncScheduleSchema,
+  },
+  runSyncSchedule: {
+    method: "post",
+    path: "/api/sync/schedules/:id/run",
+    summary: "Run a schedule now",
+    response: syncScheduleSchema,
+  },
+  deleteSyncSchedule: {
+    method: "delete",
+    path: "/api/sync/schedules/:id",
+    summary: "Remove a pair from the watchlist",
+    response: null,
+    status: 204,
+  },
+  listFundingRates: {
+    method: "get",
+    path: "/api/funding-rates",
+    summary: "Stored funding rates of a perpetual",
+    query: fundingRatesQuerySchema,
+    response: z.array(fundingRateSchema),
+  },
+  listOpenInterest: {
+    method: "get",
+    path: "/api/open-interest",
+    summary: "Stored open interest of a perpetual",
+    query: openInterestQuerySchema,
+    response: z.array(openInterestSchema),
+  },
+  listDrawings: {
+    method: "get",
+    path: "/api/drawings",
+    summary: "Drawings of a symbol",
+    query: drawingsQuerySchema,
+    response: z.array(drawingSchema),
+  },
+  createDrawing: {
+    method: "post",
+    path: "/api/drawings",
+    summary: "Save a drawing",
+    body: drawingCreateSchema,
+    response: drawingSchema,
+    status: 201,
+  },
+  updateDrawing: {
+    method: "put",
+    path: "/api/drawings/:id",
+    summary: "Update fields of a drawing",
+    body: drawingUpdateSchema,
+    response: drawingSchema,
+  },
+  deleteDrawing: {
+    method: "delete",
+    path: "/api/drawings/:id",
+    summary: "Delete a drawing",
+    response: null,
+    status: 204,
+  },
+  listReplaySessions: {
+    method: "get",
+    path: "/api/replay-sessions",
+    summary: "Saved replay sessions, most recently used first",
+    response: z.array(replaySessionSchema),
+  },
+  createReplaySession: {
+    method: "post",
+    path: "/api/replay-sessions",
+    summary: "Save a replay session",
+    body: replaySessionCreateSchema,
+    response: replaySessionSchema,
+    status: 201,
+  },
+  getReplaySession: {
+    method: "get",
+    path: "/api/replay-sessions/:id",
+    summary: "One replay session",
+    response: replaySessionSchema,
+  },
+  updateReplaySession: {
+    method: "put",
+    path: "/api/replay-sessions/:id",
+    summary: "Rename a replay session or save its progress",
+    body: replaySessionUpdateSchema,
+    response: replaySessionSchema,
+  },
+  deleteReplaySession: {
+    method: "delete",
+    path: "/api/replay-sessions/:id",
+    summary: "Delete a replay session",
+    response: null,
+    status: 204,
+  },
+} as const satisfies Record<string, Endpoint>;
+
+export type Endpoints = typeof endpoints;
+export type EndpointName = keyof Endpoints;
+
+type PathParamNames<P extends string> = P extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+export type PathParams<E extends Endpoint> = Record<PathParamNames<E["path"]>, string | number>;
+export type EndpointQuery<E extends Endpoint> = E["query"] extends z.ZodTypeAny ? z.input<E["query"]> : never;
+export type EndpointBody<E extends Endpoint> = E["body"] extends z.ZodTypeAny ? z.input<E["body"]> : never;
+export type EndpointResponse<E extends Endpoint> = E["response"] extends z.ZodTypeAny ? z.output<E["response"]> : void;
+
+// Fills `:name` segments, e.g. ("/api/drawings/:id", { id: 3 }) -> "/api/drawings/3".
+export function buildPath(path: string, params: Record<string, string | number> = {}): string {
+  return path.replace(/:([A-Za-z]+)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
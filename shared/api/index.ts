@@ -0,0 +1,3 @@
+export * from "./schemas.js";
+export * from "./endpoints.js";
+export { buildOpenApiDocument } from "./openapi.js";
@@ -0,0 +1,136 @@
+// Builds the OpenAPI 3.1 document served at /api/openapi.json from the
+// endpoint table. Only the zod constructs the contract uses are translated.
+
+import { z } from "zod";
+import { Endpoint, endpoints } from "./endpoints.js";
+import { apiErrorSchema } from "./schemas.js";
+
+type JsonSchema = Record<string, unknown>;
+
+// Schemas as a client sends them: defaults make fields optional and coercions accept strings.
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def as { typeName: z.ZodFirstPartyTypeKind } & Record<string, unknown>;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return { type: "string" };
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const checks = (schema as z.ZodNumber)._def.checks;
+      const result: JsonSchema = { type: checks.some((c) => c.kind === "int") ? "integer" : "number" };
+      for (const check of checks) {
+        if (check.kind === "min") {
+          result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        } else if (check.kind === "max") {
+          result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        }
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: (schema as z.ZodLiteral<unknown>).value };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: "array", items: toJsonSchema((schema as z.ZodArray<z.ZodTypeAny>).element) };
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      const record = schema as z.ZodRecord;
+      const keys = record.keySchema as z.ZodTypeAny;
+      return {
+        type: "object",
+        ...(keys instanceof z.ZodEnum ? { propertyNames: toJsonSchema(keys) } : {}),
+        additionalProperties: toJsonSchema(record.valueSchema),
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { oneOf: [...(def.options as z.ZodTypeAny[])].map(toJsonSchema) };
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()), { type: "null" }] };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = def.innerType as z.ZodTypeAny;
+      return { ...toJsonSchema(inner), default: (def.defaultValue as () => unknown)() };
+    }
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType());
+    default:
+      return {};
+  }
+}
+
+function objectShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  let inner = schema;
+  while (inner instanceof z.ZodEffects) {
+    inner = inner.innerType();
+  }
+  return inner instanceof z.ZodObject ? (inner.shape as Record<string, z.ZodTypeAny>) : {};
+}
+
+function operation(name: string, endpoint: Endpoint): JsonSchema {
+  const parameters: JsonSchema[] = [];
+
+  for (const match of endpoint.path.matchAll(/:([A-Za-z]+)/g)) {
+    parameters.push({ name: match[1], in: "path", required: true, schema: { type: "integer" } });
+  }
+  if (endpoint.query) {
+    for (const [key, value] of Object.entries(objectShape(endpoint.query))) {
+      parameters.push({ name: key, in: "query", required: !value.isOptional(), schema: toJsonSchema(value) });
+    }
+  }
+
+  const status = String(endpoint.status ?? 200);
+  let content: JsonSchema | undefined;
+  if (endpoint.events && endpoint.response) {
+    content = { "text/event-stream": { schema: toJsonSchema(endpoint.response) } };
+  } else if (endpoint.produces) {
+    content = Object.fromEntries(endpoint.produces.map((type) => [type, { schema: { type: "string", format: "binary" } }]));
+  } else if (endpoint.response) {
+    content = { "application/json": { schema: toJsonSchema(endpoint.response) } };
+  }
+
+  const errorContent = { "application/json": { schema: toJsonSchema(apiErrorSchema) } };
+
+  return {
+    operationId: name,
+    summary: endpoint.summary,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(endpoint.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: toJsonSchema(endpoint.body) } } } }
+      : {}),
+    ...(endpoint.upload
+      ? { requestBody: { required: true, content: { "application/octet-stream": { schema: { type: "string", format: "binary" } } } } }
+      : {}),
+    responses: {
+      [status]: { description: "Success", ...(content ? { content } : {}) },
+      "4XX": { description: "Rejected request", content: errorContent },
+      "5XX": { description: "Server or exchange failure", content: errorContent },
+    },
+  };
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const [name, endpoint] of Object.entries(endpoints) as [string, Endpoint][]) {
+    const path = endpoint.path.replace(/:([A-Za-z]+)/g, "{$1}");
+    paths[path] = { ...paths[path], [endpoint.method]: operation(name, endpoint) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "Crypto Replay API", version: "1.0.0" },
+    paths,
+  };
+}
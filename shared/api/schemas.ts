@@ -0,0 +1,581 @@
+// Zod schemas of everything the HTTP API accepts and returns. The backend
+// validates requests with them, the frontend derives its types from them and
+// checks responses against them in development, and the OpenAPI document is
+// generated from them.
+
+import { z } from "zod";
+import { nextCronTime, parseCron } from "../cron.js";
+
+export const DEFAULT_PROVIDER = "binance";
+
+// Intervals the exchanges serve and sync jobs fetch.
+export const intervalSchema = z.enum(["5m", "15m", "1h", "4h", "1D", "1W", "1M"]);
+// Intervals the exchanges do not serve; they only exist as rollups of stored base candles.
+export const derivedIntervalSchema = z.enum(["2h", "3h", "12h", "3D"]);
+export const chartIntervalSchema = z.enum(["5m", "15m", "1h", "2h", "3h", "4h", "12h", "1D", "3D", "1W", "1M"]);
+export const providerIdSchema = z.enum(["binance", "bybit", "okx", "coinbase"]);
+// Spot pairs or USDⓈ-M perpetual futures of the same symbol.
+export const marketTypeSchema = z.enum(["spot", "perp"]);
+export const candleSourceSchema = z.enum(["stored", "derived"]);
+
+export type Interval = z.infer<typeof intervalSchema>;
+export type DerivedInterval = z.infer<typeof derivedIntervalSchema>;
+export type ChartInterval = z.infer<typeof chartIntervalSchema>;
+export type ProviderId = z.infer<typeof providerIdSchema>;
+export type MarketType = z.infer<typeof marketTypeSchema>;
+export type CandleSource = z.infer<typeof candleSourceSchema>;
+
+export const symbolSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]{2,20}$/, "Invalid symbol");
+
+export const cronSchema = z
+  .string()
+  .trim()
+  .superRefine((value, ctx) => {
+    try {
+      if (nextCronTime(parseCron(value), Date.now()) === null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Cron expression never fires" });
+      }
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+const providerParam = providerIdSchema.default(DEFAULT_PROVIDER);
+const marketParam = marketTypeSchema.default("spot");
+const timeSchema = z.number().int().nonnegative();
+
+// ---- Responses -------------------------------------------------------------
+
+export const timeRangeSchema = z.object({
+  fromTime: z.number(),
+  toTime: z.number(),
+});
+
+export const candleSchema = z.object({
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: chartIntervalSchema,
+  openTime: z.number(),
+  closeTime: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+  // Extra kline statistics; null where the venue does not report them.
+  quoteVolume: z.number().nullable(),
+  trades: z.number().nullable(),
+  takerBuyBaseVolume: z.number().nullable(),
+  takerBuyQuoteVolume: z.number().nullable(),
+});
+
+export const providerInfoSchema = z.object({
+  id: providerIdSchema,
+  name: z.string(),
+  intervals: z.array(intervalSchema),
+  markets: z.array(marketTypeSchema),
+  live: z.boolean(),
+  tradeStats: z.boolean(),
+});
+
+export const fundingRateSchema = z.object({
+  fundingTime: z.number(),
+  fundingRate: z.number(),
+  markPrice: z.number().nullable(),
+});
+
+export const openInterestSchema = z.object({
+  time: z.number(),
+  openInterest: z.number(),
+  openInterestValue: z.number(),
+});
+
+export const drawingTypeSchema = z.enum(["hline", "rect", "fibo", "pricerange", "longpos", "shortpos"]);
+
+export const drawingPointSchema = z.object({
+  time: z.number(),
+  price: z.number(),
+});
+
+// "open" once price reached the entry; "missed" when the time handle passed first.
+export const positionResultSchema = z.enum(["open", "take_profit", "stop_loss", "expired", "missed"]);
+
+// What a long/short position drawing did against the candles revealed so far. Exit fields stay null until it closes.
+export const positionOutcomeSchema = z.object({
+  result: positionResultSchema,
+  entryTime: z.number().nullable(),
+  exitTime: z.number().nullable(),
+  exitPrice: z.number().nullable(),
+  // Candles after the entry candle, up to and including the exit candle, counted in `interval`.
+  barsHeld: z.number().int().nullable(),
+  // Interval of the candles the outcome was resolved on; null for outcomes saved before it was recorded.
+  interval: chartIntervalSchema.nullable().default(null),
+  // Profit or loss in units of the entry-to-stop distance.
+  rMultiple: z.number().nullable(),
+});
+
+export const drawingSchema = z.object({
+  id: z.number(),
+  symbol: z.string(),
+  type: drawingTypeSchema,
+  points: z.array(drawingPointSchema),
+  style: z.record(z.unknown()),
+  // Only long/short positions have one, once resolved against candles: still open, closed at TP, SL or
+  // the time handle, or missed when the entry was never reached before it.
+  outcome: positionOutcomeSchema.nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Playback preferences restored with a replay session.
+export const replaySessionSettingsSchema = z.object({
+  // Replay steps per second: candles, or sub-bars in intrabar mode.
+  speed: z.number().positive().max(100),
+  autoFollow: z.boolean(),
+  // Higher-interval candles grow from stored 5m sub-bars instead of appearing whole.
+  intrabar: z.boolean().default(false),
+});
+
+// A saved bar replay. Times are moments (candles that opened before them are revealed), so a
+// session survives reloads, newly synced history and interval switches.
+export const replaySessionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: chartIntervalSchema,
+  startTime: z.number(),
+  currentTime: z.number(),
+  settings: replaySessionSettingsSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const symbolInfoSchema = z.object({
+  symbol: z.string(),
+  baseAsset: z.string(),
+  quoteAsset: z.string(),
+  tickSize: z.number(),
+  listedAt: z.number().nullable(),
+});
+
+export const syncJobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+export const syncJobModeSchema = z.enum(["forward", "repair"]);
+
+export const syncJobSchema = z.object({
+  id: z.number(),
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: intervalSchema,
+  status: syncJobStatusSchema,
+  mode: syncJobModeSchema,
+  ranges: z.array(timeRangeSchema),
+  fromTime: z.number(),
+  toTime: z.number(),
+  cursor: z.number(),
+  pagesDone: z.number(),
+  candlesInserted: z.number(),
+  // Anomalies the post-sync quality check found in the synced range.
+  anomalies: z.number().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  finishedAt: z.string().nullable(),
+});
+
+// Outcome of the last scheduled run; the job itself reports how the sync went.
+export const syncScheduleResultSchema = z.enum(["started", "already_running", "up_to_date", "failed"]);
+
+export const syncScheduleSchema = z.object({
+  id: z.number(),
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: intervalSchema,
+  cron: z.string(),
+  enabled: z.boolean(),
+  nextRunAt: z.string().nullable(),
+  lastRunAt: z.string().nullable(),
+  lastResult: syncScheduleResultSchema.nullable(),
+  lastError: z.string().nullable(),
+  lastJobId: z.number().nullable(),
+  lastJobStatus: syncJobStatusSchema.nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const candleGapSchema = timeRangeSchema.extend({
+  missing: z.number(),
+});
+
+export const knownGapSchema = timeRangeSchema.extend({
+  reason: z.string(),
+});
+
+export const candleGapsReportSchema = z.object({
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: intervalSchema,
+  gaps: z.array(candleGapSchema),
+  knownGaps: z.array(knownGapSchema),
+});
+
+export const candleAnomalyKindSchema = z.enum([
+  "high_below_low",
+  "open_out_of_range",
+  "close_out_of_range",
+  "zero_volume_run",
+  "close_time_mismatch",
+  "misaligned_open_time",
+  "duplicate_period",
+]);
+
+// fromTime/toTime are open times of the first and last candle involved.
+export const candleAnomalySchema = timeRangeSchema.extend({
+  kind: candleAnomalyKindSchema,
+  detail: z.string(),
+});
+
+export const candleQualityReportSchema = z.object({
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: chartIntervalSchema,
+  from: z.number(),
+  to: z.number(),
+  checked: z.number(),
+  total: z.number(),
+  counts: z.record(candleAnomalyKindSchema, z.number()),
+  // Capped list; `total` and `counts` cover every anomaly found.
+  anomalies: z.array(candleAnomalySchema),
+  truncated: z.boolean(),
+});
+
+export const rollupReportSchema = z.object({
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  baseInterval: intervalSchema,
+  results: z.array(z.object({ interval: chartIntervalSchema, upserted: z.number() })),
+});
+
+export const importErrorSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  message: z.string(),
+});
+
+export const importReportSchema = z.object({
+  provider: providerIdSchema,
+  market: marketTypeSchema,
+  symbol: z.string(),
+  interval: intervalSchema,
+  files: z.array(z.string()),
+  rows: z.number(),
+  valid: z.number(),
+  rejected: z.number(),
+  inserted: z.number(),
+  errors: z.array(importErrorSchema),
+});
+
+export const databaseHealthSchema = z.object({
+  ok: z.boolean(),
+  latencyMs: z.number().nullable(),
+  error: z.string().nullable(),
+});
+
+export const providerHealthSchema = z.object({
+  id: providerIdSchema,
+  name: z.string(),
+  reachable: z.boolean(),
+  latencyMs: z.number().nullable(),
+  error: z.string().nullable(),
+  checkedAt: z.string(),
+});
+
+// `ok` follows the database; an unreachable exchange only affects syncs against it.
+export const healthSchema = z.object({
+  ok: z.boolean(),
+  db: databaseHealthSchema,
+  providers: z.array(providerHealthSchema),
+  // The most recently finished sync job of every pair.
+  lastSyncs: z.array(syncJobSchema),
+});
+
+// Frames of the /api/live WebSocket.
+export const liveMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("candle"), candle: candleSchema, closed: z.boolean() }),
+  z.object({ type: z.literal("sync"), job: syncJobSchema }),
+  z.object({ type: z.literal("error"), error: z.string() }),
+]);
+
+export const apiErrorCodeSchema = z.enum([
+  "invalid_request",
+  "not_found",
+  "conflict",
+  "payload_too_large",
+  "provider_error",
+  "provider_throttled",
+  "internal",
+]);
+
+// Every 4xx/5xx body. `details` carries the flattened zod error of a rejected
+// request; `requestId` matches the X-Request-Id header and the server log.
+export const apiErrorSchema = z.object({
+  error: z.object({
+    code: apiErrorCodeSchema,
+    message: z.string(),
+    details: z.unknown().optional(),
+    requestId: z.string(),
+  }),
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type Candle = z.infer<typeof candleSchema>;
+export type ProviderInfo = z.infer<typeof providerInfoSchema>;
+export type FundingRate = z.infer<typeof fundingRateSchema>;
+export type OpenInterest = z.infer<typeof openInterestSchema>;
+export type DrawingType = z.infer<typeof drawingTypeSchema>;
+export type DrawingPoint = z.infer<typeof drawingPointSchema>;
+export type PositionResult = z.infer<typeof positionResultSchema>;
+export type PositionOutcome = z.infer<typeof positionOutcomeSchema>;
+export type Drawing = z.infer<typeof drawingSchema>;
+export type ReplaySessionSettings = z.infer<typeof replaySessionSettingsSchema>;
+export type ReplaySession = z.infer<typeof replaySessionSchema>;
+export type SymbolInfo = z.infer<typeof symbolInfoSchema>;
+export type SyncJobStatus = z.infer<typeof syncJobStatusSchema>;
+export type SyncJobMode = z.infer<typeof syncJobModeSchema>;
+export type SyncJob = z.infer<typeof syncJobSchema>;
+export type SyncScheduleResult = z.infer<typeof syncScheduleResultSchema>;
+export type SyncSchedule = z.infer<typeof syncScheduleSchema>;
+export type CandleGap = z.infer<typeof candleGapSchema>;
+export type KnownGap = z.infer<typeof knownGapSchema>;
+export type CandleGapsReport = z.infer<typeof candleGapsReportSchema>;
+export type CandleAnomalyKind = z.infer<typeof candleAnomalyKindSchema>;
+export type CandleAnomaly = z.infer<typeof candleAnomalySchema>;
+export type CandleQualityReport = z.infer<typeof candleQualityReportSchema>;
+export type RollupReport = z.infer<typeof rollupReportSchema>;
+export type CandleField = z.infer<typeof candleFieldSchema>;
+export type ImportError = z.infer<typeof importErrorSchema>;
+export type ImportReport = z.infer<typeof importReportSchema>;
+export type LiveMessage = z.infer<typeof liveMessageSchema>;
+export type DatabaseHealth = z.infer<typeof databaseHealthSchema>;
+export type ProviderHealth = z.infer<typeof providerHealthSchema>;
+export type Health = z.infer<typeof healthSchema>;
+export type ApiErrorCode = z.infer<typeof apiErrorCodeSchema>;
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+// ---- Requests --------------------------------------------------------------
+
+// Most candles one /api/candles call returns; older or newer ones are paged with before/after.
+export const MAX_CANDLES_PAGE = 5000;
+
+export const candlesQuerySchema = z
+  .object({
+    provider: providerParam,
+    market: marketParam,
+    symbol: symbolSchema,
+    interval: chartIntervalSchema,
+    // Defaults to "derived" for intervals the exchanges do not serve.
+    source: candleSourceSchema.optional(),
+    from: z.coerce.number().int().nonnegative().default(0),
+    to: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(MAX_CANDLES_PAGE).default(MAX_CANDLES_PAGE),
+    before: z.coerce.number().int().nonnegative().optional(),
+    after: z.coerce.number().int().nonnegative().optional(),
+  })
+  .refine((page) => page.before === undefined || page.after === undefined, "Use either `before` or `after`");
+
+export const candleExportQuerySchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: chartIntervalSchema,
+  from: z.coerce.number().int().nonnegative().default(0),
+  to: z.coerce.number().int().positive().optional(),
+  format: z.enum(["csv", "json", "parquet"]).default("csv"),
+});
+
+export const rollupRequestSchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  intervals: z.array(chartIntervalSchema).min(1),
+  from: timeSchema.optional(),
+  to: z.number().int().positive().optional(),
+});
+
+export const candleGapsQuerySchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: intervalSchema,
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+export const candleQualityQuerySchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema.optional(),
+  interval: chartIntervalSchema.optional(),
+  from: z.coerce.number().int().nonnegative().default(0),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+// Candle fields a generic CSV import can map to a column.
+export const candleFieldSchema = z.enum([
+  "openTime",
+  "closeTime",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "quoteVolume",
+  "trades",
+  "takerBuyBaseVolume",
+  "takerBuyQuoteVolume",
+]);
+
+export const importQuerySchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: intervalSchema,
+  format: z.enum(["binance", "generic"]).default("binance"),
+  fileName: z.string().default("upload.csv"),
+  // JSON object of candle field to CSV header, e.g. {"openTime":"timestamp"}.
+  mapping: z
+    .string()
+    .optional()
+    .transform((raw, ctx) => {
+      if (!raw) {
+        return {};
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "mapping must be a JSON object of field to column name" });
+        return z.NEVER;
+      }
+      // A misspelled field would otherwise fall back to header aliases without a word.
+      const mapping = z.record(candleFieldSchema, z.string()).safeParse(parsed);
+      if (!mapping.success) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `mapping must map candle fields (${candleFieldSchema.options.join(", ")}) to column names`,
+        });
+        return z.NEVER;
+      }
+      return mapping.data;
+    }),
+});
+
+export const syncRequestSchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: intervalSchema,
+  mode: syncJobModeSchema.default("forward"),
+  from: timeSchema.optional(),
+  to: z.number().int().positive().optional(),
+  sinceListing: z.boolean().default(false),
+});
+
+export const syncJobsQuerySchema = z.object({
+  provider: providerIdSchema.optional(),
+  market: marketTypeSchema.optional(),
+  symbol: symbolSchema.optional(),
+  interval: intervalSchema.optional(),
+});
+
+export const syncScheduleCreateSchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: intervalSchema,
+  cron: cronSchema,
+  enabled: z.boolean().default(true),
+});
+
+export const syncScheduleUpdateSchema = z.object({
+  cron: cronSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const liveQuerySchema = z.object({
+  provider: providerParam,
+  market: marketParam,
+  symbol: symbolSchema,
+  interval: intervalSchema,
+});
+
+export const symbolCreateSchema = z.object({
+  provider: providerParam,
+  symbol: symbolSchema,
+  baseAsset: z.string().trim().toUpperCase().min(1).optional(),
+  quoteAsset: z.string().trim().toUpperCase().min(1).optional(),
+  tickSize: z.number().positive().optional(),
+  listedAt: timeSchema.nullable().optional(),
+});
+
+export const fundingRatesQuerySchema = z.object({
+  provider: providerParam,
+  symbol: symbolSchema,
+  from: z.coerce.number().int().nonnegative().default(0),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+export const openInterestQuerySchema = fundingRatesQuerySchema.extend({
+  interval: intervalSchema,
+});
+
+export const drawingsQuerySchema = z.object({
+  symbol: symbolSchema,
+});
+
+export const drawingCreateSchema = z.object({
+  symbol: symbolSchema,
+  type: drawingTypeSchema,
+  points: z.array(drawingPointSchema).min(1),
+  style: z.record(z.unknown()).default({}),
+});
+
+// The frontend resolves positions as replay advances and stores the outcome here.
+export const drawingUpdateSchema = drawingCreateSchema.partial().extend({
+  outcome: positionOutcomeSchema.nullable().optional(),
+});
+
+const sessionNameSchema = z.string().trim().min(1, "Name is required").max(100);
+const sessionTimeSchema = z.number().int().nonnegative();
+
+export const replaySessionCreateSchema = z
+  .object({
+    name: sessionNameSchema,
+    provider: providerParam,
+    market: marketParam,
+    symbol: symbolSchema,
+    interval: chartIntervalSchema,
+    startTime: sessionTimeSchema,
+    currentTime: sessionTimeSchema,
+    settings: replaySessionSettingsSchema,
+  })
+  .refine((s) => s.currentTime >= s.startTime, { message: "currentTime cannot be before startTime", path: ["currentTime"] });
+
+// Renames a session or records how far it got; the pair and start stay fixed.
+export const replaySessionUpdateSchema = z.object({
+  name: sessionNameSchema.optional(),
+  interval: chartIntervalSchema.optional(),
+  currentTime: sessionTimeSchema.optional(),
+  settings: replaySessionSettingsSchema.optional(),
+});
@@ -0,0 +1,118 @@
+// Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Each field accepts `*`, numbers, ranges `a-b`, steps `*/n` or
+// `a-b/n` and comma separated lists of those.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted.
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+const FIELD_BOUNDS: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ["minute", "hour", "day of month", "month", "day of week"];
+
+function parseField(raw: string, index: number): Set<number> {
+  const [min, max] = FIELD_BOUNDS[index];
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} field "${raw}"`);
+    }
+
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} field "${raw}"`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expressions need five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const daysOfWeek = parseField(fields[4], 4);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(fields[0], 0),
+    hours: parseField(fields[1], 1),
+    daysOfMonth: parseField(fields[2], 2),
+    months: parseField(fields[3], 3),
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, d: Date): boolean {
+  const dom = schedule.daysOfMonth.has(d.getUTCDate());
+  const dow = schedule.daysOfWeek.has(d.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+// Far enough for any satisfiable expression, including Feb 29.
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * First time strictly after `afterMs` that the schedule fires, or null when the
+ * expression can never match (e.g. 31 February).
+ */
+export function nextCronTime(schedule: CronSchedule, afterMs: number): number | null {
+  const d = new Date(Math.floor(afterMs / 60000) * 60000 + 60000);
+  const limit = afterMs + SEARCH_LIMIT_MS;
+
+  while (d.getTime() <= limit) {
+    if (!schedule.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d.getTime();
+  }
+
+  return null;
+}
@@ -0,0 +1,161 @@
+// Calendar-aware interval math shared by the backend and the frontend.
+//
+// Intraday and daily intervals have a fixed length in wall-clock time; weekly
+// candles start on Monday and monthly candles on the 1st, so a "1M" step is 28
+// to 31 days. Boundaries are computed in UTC unless a IANA time zone is given.
+
+export type IntervalCode = "5m" | "15m" | "1h" | "2h" | "3h" | "4h" | "12h" | "1D" | "3D" | "1W" | "1M";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Wall-clock length of every interval except "1M", which has none.
+const fixedIntervalMs: Record<Exclude<IntervalCode, "1M">, number> = {
+  "5m": 5 * MINUTE_MS,
+  "15m": 15 * MINUTE_MS,
+  "1h": HOUR_MS,
+  "2h": 2 * HOUR_MS,
+  "3h": 3 * HOUR_MS,
+  "4h": 4 * HOUR_MS,
+  "12h": 12 * HOUR_MS,
+  "1D": DAY_MS,
+  "3D": 3 * DAY_MS,
+  "1W": 7 * DAY_MS,
+};
+
+export const UTC = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Offset of the zone from UTC at the given instant, e.g. +2h for Europe/Berlin in summer.
+function timeZoneOffsetMs(timeMs: number, timeZone: string): number {
+  if (timeZone === UTC) {
+    return 0;
+  }
+
+  const parts = formatterFor(timeZone).formatToParts(new Date(timeMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const wall = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return wall - (timeMs - (((timeMs % 1000) + 1000) % 1000));
+}
+
+// Wall-clock time in the zone, expressed as if it were a UTC timestamp.
+function toWall(timeMs: number, timeZone: string): number {
+  return timeMs + timeZoneOffsetMs(timeMs, timeZone);
+}
+
+function fromWall(wallMs: number, timeZone: string): number {
+  if (timeZone === UTC) {
+    return wallMs;
+  }
+  // The offset at the target instant can differ from the one at wallMs around DST changes.
+  const guess = wallMs - timeZoneOffsetMs(wallMs, timeZone);
+  return wallMs - timeZoneOffsetMs(guess, timeZone);
+}
+
+function floorTo(value: number, step: number): number {
+  return value - (((value % step) + step) % step);
+}
+
+function wallIntervalStart(wallMs: number, interval: IntervalCode): number {
+  if (interval === "1M") {
+    const d = new Date(wallMs);
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  }
+
+  if (interval === "1W") {
+    // 1970-01-01 was a Thursday, three days after a Monday.
+    return floorTo(wallMs + 3 * DAY_MS, fixedIntervalMs["1W"]) - 3 * DAY_MS;
+  }
+
+  // 3D buckets count days from the epoch, like Binance's.
+  return floorTo(wallMs, fixedIntervalMs[interval]);
+}
+
+/**
+ * Open time of the candle of `interval` that contains `timeMs`.
+ */
+export function intervalStart(timeMs: number, interval: IntervalCode, timeZone = UTC): number {
+  return fromWall(wallIntervalStart(toWall(timeMs, timeZone), interval), timeZone);
+}
+
+/**
+ * Moves a candle open time by `count` candles (negative moves back). Months
+ * keep landing on the 1st regardless of their length.
+ */
+export function shiftInterval(openTime: number, interval: IntervalCode, count: number, timeZone = UTC): number {
+  const wall = wallIntervalStart(toWall(openTime, timeZone), interval);
+
+  if (interval === "1M") {
+    const d = new Date(wall);
+    return fromWall(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + count, 1), timeZone);
+  }
+
+  return fromWall(wall + count * fixedIntervalMs[interval], timeZone);
+}
+
+export function nextIntervalStart(openTime: number, interval: IntervalCode, timeZone = UTC): number {
+  return shiftInterval(openTime, interval, 1, timeZone);
+}
+
+// Close time as exchanges report it: one millisecond before the next candle opens.
+export function intervalCloseTime(openTime: number, interval: IntervalCode, timeZone = UTC): number {
+  return nextIntervalStart(openTime, interval, timeZone) - 1;
+}
+
+// Position of `timeMs` counted in candles from the epoch, with the fraction into the current candle.
+function intervalPosition(timeMs: number, interval: IntervalCode, timeZone: string): number {
+  const start = intervalStart(timeMs, interval, timeZone);
+  const next = nextIntervalStart(start, interval, timeZone);
+  const fraction = (timeMs - start) / (next - start);
+
+  if (interval === "1M") {
+    const d = new Date(toWall(start, timeZone));
+    return (d.getUTCFullYear() - 1970) * 12 + d.getUTCMonth() + fraction;
+  }
+
+  return Math.round((toWall(start, timeZone) - wallIntervalStart(0, interval)) / fixedIntervalMs[interval]) + fraction;
+}
+
+/**
+ * Number of candles between two instants, fractional when they are not candle
+ * boundaries. Positive when `toMs` is later.
+ */
+export function intervalsBetween(fromMs: number, toMs: number, interval: IntervalCode, timeZone = UTC): number {
+  return intervalPosition(toMs, interval, timeZone) - intervalPosition(fromMs, interval, timeZone);
+}
+
+/**
+ * Longest real duration of one candle. Consecutive candles further apart than
+ * this have a hole between them.
+ */
+export function maxIntervalMs(interval: IntervalCode): number {
+  return interval === "1M" ? 31 * DAY_MS : fixedIntervalMs[interval];
+}
+
+/**
+ * Fixed length of intervals that have one; "1M" is reported as 30 days and
+ * must only be used where an approximation is fine.
+ */
+export function nominalIntervalMs(interval: IntervalCode): number {
+  return interval === "1M" ? 30 * DAY_MS : fixedIntervalMs[interval];
+}